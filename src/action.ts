@@ -1,110 +1,191 @@
 import * as core from '@actions/core'
-import { collectNpmBatch } from './collectors/npm.js'
-import { collectGithubBatch } from './collectors/github.js'
-import { collectPowerShellBatch } from './collectors/powershell.js'
-import { collectPypiBatch } from './collectors/pypi.js'
-import type { MetricResult } from './collectors/types.js'
-import { getInputs, updateRepositoryReadme } from './utils.js'
-import { writeFile } from 'fs/promises'
+import { configureHttp } from './clients/http.js'
+import { configureRecorder } from './clients/recorder.js'
+import { configureScheduler, logSchedulerStats } from './clients/scheduler.js'
+import { loadCustomPlatforms } from './registry.js'
+import { evaluateFailurePolicy, failedSourceKey } from './policy.js'
+import { configureAnomalies, findAnomalies } from './anomalies.js'
+import { loadDeltaBaseline, setDeltaBaseline } from './deltas.js'
+import { configureForecast } from './forecast.js'
+import { configureReleaseImpact } from './releases.js'
+import { configurePypi } from './collectors/pypi.js'
+import { configureLeaderboard, setLeaderboardBaseline } from './leaderboard.js'
+import { splitBenchmarks } from './summaries/benchmarks.js'
+import { appendHistory, readHistory } from './history.js'
+import { setMilestones } from './milestones.js'
+import { loadPreviousResults } from './previous.js'
+import { removeStaleOutputFiles } from './output.js'
+import { previewRun, writeJobSummary } from './preview.js'
+import { publishFiles } from './publish.js'
+import { collectMetrics } from './runner.js'
+import { writeStats } from './stats.js'
+import { getInputs, resolveSources, updateRepositoryReadme } from './utils.js'
 
 try {
+    const inputs = getInputs()
     const {
-        npmPackages,
-        githubRepositories,
-        pypiPackages,
-        powershellModules,
         jsonOutputPath,
+        historyPath,
         updateReadme,
         commitMessage,
         readmePath,
-    } = getInputs()
+        configPath,
+    } = inputs
+
+    configureScheduler({
+        ...(inputs.maxConcurrency !== undefined ? { maxConcurrency: inputs.maxConcurrency } : {}),
+        ...(inputs.maxConcurrencyPerHost !== undefined ? { maxPerHost: inputs.maxConcurrencyPerHost } : {}),
+    })
+    configureHttp({
+        ...(inputs.httpTimeout !== undefined ? { timeoutMs: inputs.httpTimeout * 1000 } : {}),
+        ...(inputs.httpRetries !== undefined ? { retries: inputs.httpRetries } : {}),
+    })
+    await configureRecorder(inputs.httpMode, inputs.fixturesDir)
+    configureAnomalies({
+        method: inputs.anomalyDetection,
+        ...(inputs.anomalyThreshold !== undefined ? { threshold: inputs.anomalyThreshold } : {}),
+        ...(inputs.anomalyWindow !== undefined ? { window: inputs.anomalyWindow } : {}),
+        ...(inputs.anomalyLookbackDays !== undefined ? { lookbackDays: inputs.anomalyLookbackDays } : {}),
+    })
+    configureForecast({
+        ...(inputs.forecastDays !== undefined ? { horizonDays: inputs.forecastDays } : {}),
+        ...(inputs.forecastThreshold !== undefined ? { threshold: inputs.forecastThreshold } : {}),
+    })
+    configurePypi({ mirrors: inputs.pypiMirrors, keepUnknown: inputs.pypiKeepUnknown, pythonVersions: inputs.pypiPythonVersions })
+    configureReleaseImpact({ windowDays: inputs.releaseImpactDays ?? 0 })
+    configureLeaderboard(inputs.leaderboardMetric)
+
+    // Custom platforms must be registered before the sources config is validated
+    await loadCustomPlatforms(inputs.customCollectors)
+
+    const sources = await resolveSources(inputs)
 
     // Debug logs are only output if the `ACTIONS_STEP_DEBUG` secret is true
-    core.debug(`NPM Packages: ${npmPackages.join(', ')}`)
-    core.debug(`GitHub Repositories: ${githubRepositories.join(', ')}`)
-    core.debug(`PyPI Packages: ${pypiPackages.join(', ')}`)
-    core.debug(`PowerShell Modules: ${powershellModules.join(', ')}`)
+    core.debug(`Config Path: ${configPath || '(none)'}`)
+    core.debug(`Custom Collectors: ${inputs.customCollectors.join(', ') || '(none)'}`)
+    for (const source of sources) {
+        core.debug(`${source.platform}: ${source.name}`)
+    }
     core.debug(``)
+    core.debug(`HTTP Mode: ${inputs.httpMode}${inputs.httpMode !== 'live' ? ` (${inputs.fixturesDir})` : ''}`)
     core.debug(`JSON Output Path: ${jsonOutputPath}`)
+    core.debug(`History Path: ${historyPath || '(disabled)'}`)
+    core.debug(`Delta Baseline: ${inputs.deltaBaseline}${inputs.deltaPeriodDays ? ` (${inputs.deltaPeriodDays} days)` : ''}`)
+    core.debug(`Anomaly Detection: ${inputs.anomalyDetection}`)
+    core.debug(`PyPI: ${inputs.pypiMirrors ? 'with' : 'without'} mirrors, ${inputs.pypiKeepUnknown ? 'keeping' : 'dropping'} unknown, Python versions by ${inputs.pypiPythonVersions}`)
+    core.debug(`Leaderboard: ${inputs.leaderboardMetric || 'off'}`)
+    core.debug(`Release Impact: ${inputs.releaseImpactDays ? `${inputs.releaseImpactDays} days` : 'off'}`)
+    core.debug(`Milestones: ${inputs.milestones.map(rule => `${rule.metric}:${rule.step}`).join(', ') || '(none)'}`)
+    core.debug(`Forecast: ${inputs.forecastDays ? `${inputs.forecastDays} days` : 'off'}${inputs.forecastThreshold ? ` (threshold ${inputs.forecastThreshold})` : ''}`)
     core.debug(`Update README: ${updateReadme}`)
     core.debug(`Commit Message: ${commitMessage}`)
+    core.debug(`Dry Run: ${inputs.dryRun}`)
+    core.debug(`Publish: ${inputs.publish}${inputs.publishBranch ? ` (${inputs.publishBranch})` : ''}`)
+    core.debug(`Fail On: ${inputs.failOn.type === 'percent' ? `${inputs.failOn.threshold}%` : inputs.failOn.type}`)
 
-    // Track which platforms are being used
-    const platformsTracked: string[] = []
-    if (npmPackages.length > 0) platformsTracked.push('NPM')
-    if (githubRepositories.length > 0) platformsTracked.push('GitHub')
-    if (pypiPackages.length > 0) platformsTracked.push('PyPI')
-    if (powershellModules.length > 0) platformsTracked.push('PowerShell')
+    const platformsTracked = sources.map(source => source.platform).filter((value, index, self) => self.indexOf(value) === index)
+    core.info(`Successfully configured usage statistics tracker for ${platformsTracked.length} platforms`)
+    core.setOutput('platforms-tracked', platformsTracked.join(','))
 
-    core.debug(`Platforms to track: ${platformsTracked.join(', ')}`)
+    // Collectors reuse the previous run's series (such as npm daily downloads) and only fetch what is new
+    const previous = await loadPreviousResults(jsonOutputPath, { fullRefresh: inputs.fullRefresh })
+    core.debug(`Previous Results: ${previous.length} sources from ${jsonOutputPath}${inputs.fullRefresh ? ' (full refresh)' : ''}`)
 
-    core.info(`Successfully configured usage statistics tracker for ${platformsTracked.length} platforms`)
+    const metrics = await collectMetrics(sources)
+    logSchedulerStats()
 
-    const metricPromises: Promise<MetricResult[]>[] = []
-    const metrics: MetricResult[] = []
-
-    for (const platform of platformsTracked) {
-        core.info(`Collecting ${platform} metrics...`)
-        switch (platform) {
-            case 'NPM':
-                console.log(`Collecting NPM metrics for ${npmPackages.join(', ')}`)
-                console.time(`Collecting NPM metrics`)
-                metricPromises.push(collectNpmBatch(npmPackages).then(results => {
-                    console.timeEnd(`Collecting NPM metrics`)
-                    return results
-                }))
-                break
-            case 'GitHub':
-                console.log(`Collecting GitHub metrics for ${githubRepositories.join(', ')}`)
-                console.time(`Collecting GitHub metrics`)
-                metricPromises.push(collectGithubBatch(githubRepositories).then(results => {
-                    console.timeEnd(`Collecting GitHub metrics`)
-                    return results
-                }))
-                break
-            case 'PyPI':
-                console.log(`Collecting PyPI metrics for ${pypiPackages.join(', ')}`)
-                console.time(`Collecting PyPI metrics`)
-                metricPromises.push(collectPypiBatch(pypiPackages).then(results => {
-                    console.timeEnd(`Collecting PyPI metrics`)
-                    return results
-                }))
-                break
-            case 'PowerShell':
-                console.log(`Collecting PowerShell metrics for ${powershellModules.join(', ')}`)
-                console.time(`Collecting PowerShell metrics`)
-                metricPromises.push(collectPowerShellBatch(powershellModules).then(results => {
-                    console.timeEnd(`Collecting PowerShell metrics`)
-                    return results
-                }))
-                break
-        }
+    const failures = evaluateFailurePolicy(metrics, inputs.failOn)
+    for (const metric of failures.failed) {
+        core.warning(`Failed to collect ${failedSourceKey(metric)}: ${metric.error}`)
     }
+    core.setOutput('failed-sources', failures.failed.map(failedSourceKey).join(','))
+    core.setOutput('error-count', failures.failed.length)
+    core.info(failures.message)
 
-    console.log('All metrics collecting started')
-
-    const metricResults = await Promise.all(metricPromises)
-    metrics.push(...metricResults.flat())
+    // Benchmark sources are only compared against, so they raise no events or milestones of ours
+    const own = splitBenchmarks(metrics).own
+    const anomalies = findAnomalies(own)
+    core.setOutput('anomalies', JSON.stringify(anomalies))
+    if (anomalies.length > 0) {
+        core.info(`Flagged ${anomalies.length} notable events`)
+    }
 
-    console.log('All metrics collecting completed')
+    // Rank movement is measured against the previous run
+    setLeaderboardBaseline(previous)
 
-    if (updateReadme) { 
-        console.log('Updating repository readme...')
-        await updateRepositoryReadme(metrics, readmePath)
+    // Milestones compare with the previous run and the history before this run is added to them
+    const milestones = setMilestones(inputs.milestones, own, previous, historyPath ? await readHistory(historyPath) : [], inputs.milestoneRecentDays)
+    for (const milestone of milestones) {
+        core.notice(`${milestone.platform}:${milestone.name} passed ${milestone.milestone.toLocaleString()} ${milestone.metric}`)
     }
+    core.setOutput('milestones', JSON.stringify(milestones))
 
-    console.log('Repository readme updated')
+    // The baseline is read before this run overwrites the stats file or appends to the history
+    setDeltaBaseline(await loadDeltaBaseline(inputs.deltaBaseline, metrics, { statsPath: jsonOutputPath, historyPath }, inputs.deltaPeriodDays))
 
-    // Persist full result set to JSON for downstream consumption
-    try {
-        await writeFile(jsonOutputPath, JSON.stringify(metrics, null, 2), 'utf8')
-        core.setOutput('json-output', jsonOutputPath)
-        console.log(`Wrote metrics JSON to ${jsonOutputPath}`)
-    } catch (writeErr) {
-        console.warn(`Failed to write metrics JSON to ${jsonOutputPath}:`, writeErr)
-    }
+    if (inputs.dryRun) {
+        // Nothing is written or published: the README and charts are rendered in memory and compared
+        const preview = await previewRun(metrics, updateReadme ? readmePath : undefined)
+        console.log(preview)
+        await writeJobSummary(preview)
+        core.setOutput('commit-message', commitMessage)
+        if (failures.violated) {
+            core.setFailed(failures.message)
+        }
+    } else {
+        // Leave the README alone rather than publish a run the policy rejects
+        let removedCharts: string[] = []
+        if (updateReadme && !failures.violated) { 
+            console.log('Updating repository readme...')
+            await updateRepositoryReadme(metrics, readmePath)
+            // Charts that are no longer generated would otherwise stay in the repository
+            removedCharts = removeStaleOutputFiles('charts')
+            if (removedCharts.length > 0) {
+                console.log(`Removed charts that are no longer generated: ${removedCharts.join(', ')}`)
+            }
+        }
+
+        console.log('Repository readme updated')
 
-    core.setOutput('commit-message', commitMessage)
+        if (failures.violated) {
+            // Failed sources would be stored as missing metrics, losing the series the next run builds on
+            console.log(`Left ${jsonOutputPath}${historyPath ? ` and ${historyPath}` : ''} unchanged`)
+        } else {
+            // Persist full result set to JSON for downstream consumption
+            try {
+                await writeStats(jsonOutputPath, metrics)
+                core.setOutput('json-output', jsonOutputPath)
+                console.log(`Wrote metrics JSON to ${jsonOutputPath}`)
+            } catch (writeErr) {
+                console.warn(`Failed to write metrics JSON to ${jsonOutputPath}:`, writeErr)
+            }
+
+            // Append this run to the snapshot history
+            if (historyPath) {
+                const snapshots = await appendHistory(historyPath, metrics)
+                console.log(`Appended ${snapshots.length} snapshots to ${historyPath}`)
+            }
+        }
+
+        core.setOutput('commit-message', commitMessage)
+
+        if (failures.violated) {
+            core.setFailed(failures.message)
+        } else if (inputs.publish !== 'none') {
+            const result = await publishFiles({
+                mode: inputs.publish,
+                token: core.getInput('github-token') || process.env.GITHUB_TOKEN || '',
+                repository: process.env.GITHUB_REPOSITORY || '',
+                branch: inputs.publishBranch,
+                baseBranch: inputs.baseBranch,
+                message: commitMessage,
+                paths: [...(updateReadme ? [readmePath] : []), jsonOutputPath, ...(historyPath ? [historyPath] : []), 'charts'],
+                removed: removedCharts,
+            })
+            core.setOutput('commit-sha', result.commitSha || '')
+            core.setOutput('pull-request-url', result.pullRequestUrl || '')
+        }
+    }
 } catch (error) {
     // Fail the workflow run if an error occurs
     if (error instanceof Error) core.setFailed(error.message)
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { configureAnomalies, detectAnomalies, detectSeriesAnomalies, formatNotableEvents, parseAnomalyMethod } from './anomalies.js';
+import type { MetricResult } from './collectors/types.js';
+
+// Six weeks from Monday 2025-06-02: busy weekdays around 100, quiet weekends around 30
+const DAYS = Array.from({ length: 42 }, (_, i) => new Date(Date.UTC(2025, 5, 2 + i)).toISOString().slice(0, 10))
+const WEEKLY = DAYS.map((day, i) => ({ day, value: [0, 6].includes(new Date(day).getUTCDay()) ? 30 + (i % 3) : 100 + (i % 5) }))
+// A spike on Tuesday 2025-07-08 and a drop on Friday 2025-07-11
+const UNUSUAL = WEEKLY.map((point, i) => i === 36 ? { ...point, value: 600 } : i === 39 ? { ...point, value: 20 } : point)
+
+const SETTINGS = { method: 'mad' as const, threshold: 3.5, window: 28 }
+
+function npm(points: { day: string; value: number }[]): MetricResult {
+    return {
+        platform: 'NPM',
+        name: 'example',
+        displayName: 'Example',
+        timestamp: '2025-07-14T06:00:00.000Z',
+        metrics: { downloadsTotal: 0, downloadsRange: points.map(point => ({ day: point.day, downloads: point.value })) },
+    }
+}
+
+describe('parseAnomalyMethod', () => {
+    test('reads the methods and rejects anything else', () => {
+        expect(parseAnomalyMethod('')).toBe('none')
+        expect(parseAnomalyMethod(' IQR ')).toBe('iqr')
+        expect(() => parseAnomalyMethod('zscore')).toThrow('Invalid anomaly-detection value "zscore" (expected none, mad, iqr)')
+    })
+})
+
+describe('detectSeriesAnomalies', () => {
+    test('does not flag quiet weekends in a daily series', () => {
+        expect(detectSeriesAnomalies(WEEKLY, SETTINGS, true)).toEqual([])
+        // Without the weekday adjustment every weekend stands out
+        expect(detectSeriesAnomalies(WEEKLY, SETTINGS, false).every(point => point.direction === 'drop')).toBe(true)
+    })
+
+    test('flags spikes and drops against the weekday-adjusted median', () => {
+        for (const method of ['mad', 'iqr'] as const) {
+            const flagged = detectSeriesAnomalies(UNUSUAL, { ...SETTINGS, method }, true)
+            expect(flagged.map(point => [point.day, point.direction, point.expected])).toEqual([
+                ['2025-07-08', 'spike', 102.5],
+                ['2025-07-11', 'drop', 101.5],
+            ])
+        }
+    })
+
+    test('skips small counts and finds nothing when detection is off', () => {
+        const small = UNUSUAL.map(point => ({ ...point, value: point.value / 20 }))
+        // The spike still reaches 30, but the drop to 1 is too small to tell
+        expect(detectSeriesAnomalies(small, SETTINGS, true).map(point => point.day)).toEqual(['2025-07-08'])
+        expect(detectSeriesAnomalies(UNUSUAL, { ...SETTINGS, method: 'none' }, true)).toEqual([])
+    })
+})
+
+describe('detectAnomalies', () => {
+    afterEach(() => {
+        configureAnomalies({ method: 'none', threshold: 3.5, window: 28, lookbackDays: 90 })
+    })
+
+    test('reports only the days within the lookback period', () => {
+        configureAnomalies({ method: 'mad', lookbackDays: 4 })
+        expect(detectAnomalies(npm(UNUSUAL)).map(anomaly => [anomaly.day, anomaly.series, anomaly.period])).toEqual([['2025-07-11', 'downloads', 'day']])
+    })
+
+    test('leaves lists of releases alone', () => {
+        configureAnomalies({ method: 'mad' })
+        const releases = npm(UNUSUAL)
+        releases.metrics!.downloadsRange = UNUSUAL.map(point => ({ day: point.day, downloads: point.value, version: `1.0.${point.day.slice(8)}` }))
+        expect(detectAnomalies(releases)).toEqual([])
+    })
+
+    test('lists the anomalies newest first under notable events', () => {
+        expect(formatNotableEvents([npm(UNUSUAL)])).toBe('')
+
+        configureAnomalies({ method: 'mad' })
+        expect(formatNotableEvents([npm(UNUSUAL)])).toBe(
+            '### Notable events\n\n'
+            + '| When | Source | Event | Value | Typical | Score |\n'
+            + '| --- | --- | --- | --- | --- | --- |\n'
+            + '| 2025-07-11 | Example | downloads drop | 20 (-80%) | 102 | -36.8 |\n'
+            + '| 2025-07-08 | Example | downloads spike | 600 (+485%) | 103 | 221.5 |\n'
+            + '\nFlagged where the robust z-score (median absolute deviation of the previous 28 points) is 3.5 or more; typical is their median, adjusted for the weekday for daily series.\n\n'
+        )
+        expect(formatNotableEvents([npm(WEEKLY)])).toBe('### Notable events\n\nNo unusual days or weeks in the last 90 days.\n\n')
+    })
+})
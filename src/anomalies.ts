@@ -0,0 +1,266 @@
+/**
+ * Anomaly detection on download and traffic time series: days (or weeks) that stand out from
+ * the recent past, such as spikes from CI loops or mirrors and drops after a broken release
+ */
+
+import { isPlatformResult, type DownloadsRangeEntry, type MetricResult } from './collectors/types.js';
+
+/**
+ * How the spread of the trailing window is measured: the median absolute deviation (mad)
+ * or the interquartile range (iqr). Both ignore the outliers they are looking for.
+ */
+export type AnomalyMethod = 'none' | 'mad' | 'iqr'
+
+export interface AnomalyOptions {
+    method: AnomalyMethod;
+    /** Robust z-score beyond which a point is flagged */
+    threshold: number;
+    /** Number of earlier points each point is compared with */
+    window: number;
+    /** Only points this many days before the result's timestamp are reported */
+    lookbackDays: number;
+}
+
+export interface Anomaly {
+    platform: string;
+    name: string;
+    /** The series the point belongs to, such as downloads or views */
+    series: string;
+    period: 'day' | 'week';
+    /** The day, or the first day of the week */
+    day: string;
+    value: number;
+    /** Median of the trailing window, adjusted for the weekday for daily series */
+    expected: number;
+    score: number;
+    direction: 'spike' | 'drop';
+}
+
+interface SeriesPoint {
+    day: string;
+    value: number;
+}
+
+const ANOMALY_METHODS: AnomalyMethod[] = ['none', 'mad', 'iqr']
+const DAY_MS = 24 * 60 * 60 * 1000
+// Small counts swing too much to be worth flagging
+const MIN_COUNT = 10
+// In very steady series a small wobble can still score high; it is not worth reporting
+const MIN_CHANGE = 0.25
+
+let options: AnomalyOptions = { method: 'none', threshold: 3.5, window: 28, lookbackDays: 90 }
+
+export function parseAnomalyMethod(input: string): AnomalyMethod {
+    const method = (input.trim().toLowerCase() || 'none') as AnomalyMethod
+    if (!ANOMALY_METHODS.includes(method)) {
+        throw new Error(`Invalid anomaly-detection value "${input}" (expected ${ANOMALY_METHODS.join(', ')})`)
+    }
+    return method
+}
+
+/**
+ * Turn anomaly detection on or off and tune it; omitted options keep their current values
+ */
+export function configureAnomalies(next: Partial<AnomalyOptions>) {
+    options = { ...options, ...next }
+}
+
+export function getAnomalyOptions(): Readonly<AnomalyOptions> {
+    return options
+}
+
+function median(sorted: number[]) {
+    const middle = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function quantile(sorted: number[], q: number) {
+    const position = (sorted.length - 1) * q
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// Spread of the window scaled to match a standard deviation for normally distributed data
+function robustScale(sorted: number[], center: number, method: AnomalyMethod) {
+    if (method === 'iqr') {
+        const scale = (quantile(sorted, 0.75) - quantile(sorted, 0.25)) / 1.349
+        if (scale > 0) return scale
+    } else {
+        const scale = median(sorted.map(value => Math.abs(value - center)).sort((a, b) => a - b)) * 1.4826
+        if (scale > 0) return scale
+    }
+    // More than half the window is identical; fall back to the mean absolute deviation
+    return sorted.reduce((sum, value) => sum + Math.abs(value - center), 0) / sorted.length * 1.2533
+}
+
+function weekday(day: string) {
+    return new Date(`${day.slice(0, 10)}T00:00:00Z`).getUTCDay()
+}
+
+/**
+ * How much busier each weekday is than the window as a whole, so that quiet weekends are not flagged as drops
+ * @returns A factor per weekday (0 is Sunday), 1 where the window has too little to tell
+ */
+function weekdayFactors(window: SeriesPoint[]) {
+    const overall = median(window.map(point => point.value).sort((a, b) => a - b))
+    return Array.from({ length: 7 }, (_, day) => {
+        const values = window.filter(point => weekday(point.day) === day).map(point => point.value).sort((a, b) => a - b)
+        const typical = values.length > 0 ? median(values) : 0
+        return overall > 0 && typical > 0 ? typical / overall : 1
+    })
+}
+
+/**
+ * Flag the points of a series that lie too far from the median of the points before them
+ * @param points - The series in time order
+ * @param settings - The method, threshold and window to use
+ * @param seasonal - Whether the points are days, compared after adjusting for the weekday
+ * @returns The flagged points with their expected value and robust z-score
+ */
+export function detectSeriesAnomalies(points: SeriesPoint[], settings: Pick<AnomalyOptions, 'method' | 'threshold' | 'window'> = options, seasonal = false) {
+    const flagged: (SeriesPoint & Pick<Anomaly, 'expected' | 'score' | 'direction'>)[] = []
+    if (settings.method === 'none') return flagged
+
+    // Early points need at least half a window of history to be judged
+    const minHistory = Math.max(3, Math.ceil(settings.window / 2))
+    for (let i = minHistory; i < points.length; i++) {
+        const history = points.slice(Math.max(0, i - settings.window), i)
+        const factors = seasonal ? weekdayFactors(history) : undefined
+        const adjust = (point: SeriesPoint) => factors ? point.value / factors[weekday(point.day)] : point.value
+
+        const window = history.map(adjust).sort((a, b) => a - b)
+        const center = median(window)
+        const factor = factors ? factors[weekday(points[i].day)] : 1
+        const expected = center * factor
+        const { value } = points[i]
+        if (Math.max(value, expected) < MIN_COUNT) continue
+
+        const scale = robustScale(window, center, settings.method)
+        if (scale === 0) continue
+        const score = (adjust(points[i]) - center) / scale
+        if (Math.abs(score) >= settings.threshold && Math.abs(value - expected) >= expected * MIN_CHANGE) {
+            flagged.push({ ...points[i], expected, score: Math.round(score * 10) / 10, direction: score > 0 ? 'spike' : 'drop' })
+        }
+    }
+    return flagged
+}
+
+// Sum daily points into weeks starting on Monday, leaving out an unfinished last week
+function groupByWeek(points: SeriesPoint[]): SeriesPoint[] {
+    const weeks = new Map<string, { value: number; days: number }>()
+    for (const point of points) {
+        const date = new Date(`${point.day.slice(0, 10)}T00:00:00Z`)
+        const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS).toISOString().slice(0, 10)
+        const week = weeks.get(monday) || { value: 0, days: 0 }
+        week.value += point.value
+        week.days++
+        weeks.set(monday, week)
+    }
+    const sorted = Array.from(weeks.entries()).sort(([a], [b]) => a.localeCompare(b))
+    if (sorted.length > 0 && sorted[sorted.length - 1][1].days < 7) sorted.pop()
+    return sorted.map(([day, week]) => ({ day, value: week.value }))
+}
+
+/**
+ * The time series of a result worth checking, found by shape rather than platform:
+ * daily downloads (npm, PyPI and custom platforms), GitHub traffic, and PowerShell downloads
+ * derived from run snapshots, which are checked per week because they are spread evenly between runs
+ */
+function anomalySeries(metric: MetricResult): { series: string; period: Anomaly['period']; points: SeriesPoint[] }[] {
+    const found: { series: string; period: Anomaly['period']; points: SeriesPoint[] }[] = []
+    const downloadsRange: DownloadsRangeEntry[] = metric.metrics?.downloadsRange || []
+    // Release and version lists are keyed by publish date, not a time series
+    if (downloadsRange.length > 0 && downloadsRange.every(entry => entry.tagName === undefined && entry.version === undefined)) {
+        found.push({ series: 'downloads', period: 'day', points: downloadsRange.map(entry => ({ day: entry.day, value: entry.downloads })) })
+    }
+    const dailyDownloadsRange = isPlatformResult(metric, 'PowerShell') ? metric.metrics?.dailyDownloadsRange || [] : []
+    if (dailyDownloadsRange.length > 0) {
+        found.push({ series: 'downloads', period: 'week', points: groupByWeek(dailyDownloadsRange.map(entry => ({ day: entry.day, value: entry.downloads }))) })
+    }
+    const trafficRange = isPlatformResult(metric, 'GitHub') ? metric.metrics?.trafficRange || [] : []
+    if (trafficRange.length > 0) {
+        found.push({ series: 'views', period: 'day', points: trafficRange.map(entry => ({ day: entry.day, value: entry.views })) })
+        found.push({ series: 'clones', period: 'day', points: trafficRange.map(entry => ({ day: entry.day, value: entry.clones })) })
+    }
+    return found
+}
+
+/**
+ * The anomalies of one result within the lookback period, oldest first; empty when detection is off
+ */
+export function detectAnomalies(metric: MetricResult): Anomaly[] {
+    if (options.method === 'none' || metric.error) return []
+    const since = new Date(new Date(metric.timestamp).getTime() - options.lookbackDays * DAY_MS).toISOString().slice(0, 10)
+
+    return anomalySeries(metric).flatMap(({ series, period, points }) => {
+        const sorted = [...points].sort((a, b) => a.day.localeCompare(b.day))
+        return detectSeriesAnomalies(sorted, options, period === 'day')
+            .filter(point => point.day.slice(0, 10) >= since)
+            .map(point => ({ platform: metric.platform, name: metric.name, series, period, ...point, day: point.day.slice(0, 10) }))
+    })
+}
+
+/**
+ * The anomalies of every result, newest first
+ */
+export function findAnomalies(metrics: MetricResult[]): Anomaly[] {
+    return metrics.flatMap(detectAnomalies).sort((a, b) => b.day.localeCompare(a.day))
+}
+
+/**
+ * Data for a chart dataset marking the buckets (such as months) that contain an anomaly
+ * @param labels - The chart's labels
+ * @param data - The values plotted for each label, so the marks sit on the line or bar
+ * @param anomalies - The anomalies to mark
+ * @param bucketOf - The label an anomaly's day falls under
+ * @returns One value per label, null where there is nothing to mark; undefined when nothing is marked at all
+ */
+export function anomalyMarkers(labels: string[], data: (number | null)[], anomalies: Anomaly[], bucketOf: (day: string) => string) {
+    const buckets = new Set(anomalies.map(anomaly => bucketOf(anomaly.day)))
+    const markers = labels.map((label, index) => buckets.has(label) ? data[index] ?? null : null)
+    return markers.some(marker => marker !== null) ? markers : undefined
+}
+
+/**
+ * A Chart.js dataset drawing anomaly markers as red triangles without a connecting line
+ */
+export function anomalyDataset(markers: (number | null)[]) {
+    return {
+        type: 'line' as const,
+        label: 'Notable events',
+        data: markers,
+        showLine: false,
+        pointStyle: 'triangle' as const,
+        pointRadius: 9,
+        backgroundColor: 'rgba(220, 38, 38, 1)',
+        borderColor: 'rgba(220, 38, 38, 1)',
+    }
+}
+
+function formatAnomaly(anomaly: Anomaly, displayName: string) {
+    const what = anomaly.period === 'week' ? `week of ${anomaly.day}` : anomaly.day
+    const change = anomaly.expected > 0 ? ` (${anomaly.value > anomaly.expected ? '+' : ''}${Math.round((anomaly.value / anomaly.expected - 1) * 100).toLocaleString()}%)` : ''
+    return `| ${what} | ${displayName} | ${anomaly.series} ${anomaly.direction} | ${anomaly.value.toLocaleString()}${change} | ${Math.round(anomaly.expected).toLocaleString()} | ${anomaly.score} |`
+}
+
+/**
+ * The "Notable events" section listing the anomalies of every result; empty when detection is off
+ */
+export function formatNotableEvents(metrics: MetricResult[]): string {
+    if (options.method === 'none') return ''
+    const names = new Map(metrics.map(metric => [`${metric.platform}:${metric.name}`, metric.displayName || metric.name]))
+    const anomalies = findAnomalies(metrics)
+
+    let summary = `### Notable events\n\n`
+    if (anomalies.length === 0) {
+        return summary + `No unusual days or weeks in the last ${options.lookbackDays} days.\n\n`
+    }
+    summary += `| When | Source | Event | Value | Typical | Score |\n`
+    summary += `| --- | --- | --- | --- | --- | --- |\n`
+    for (const anomaly of anomalies) {
+        summary += `${formatAnomaly(anomaly, names.get(`${anomaly.platform}:${anomaly.name}`) || anomaly.name)}\n`
+    }
+    summary += `\nFlagged where the robust z-score (${options.method === 'iqr' ? 'interquartile range' : 'median absolute deviation'} of the previous ${options.window} points) is ${options.threshold} or more; typical is their median, adjusted for the weekday for daily series.\n\n`
+    return summary
+}
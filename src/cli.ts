@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+/**
+ * Command line entry point for running the tracker outside GitHub Actions
+ */
+
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'node:util';
+import { configureHttp } from './clients/http.js';
+import { configureRecorder } from './clients/recorder.js';
+import { configureScheduler } from './clients/scheduler.js';
+import { configureAnomalies, parseAnomalyMethod } from './anomalies.js';
+import { loadDeltaBaseline, setDeltaBaseline } from './deltas.js';
+import { configureForecast } from './forecast.js';
+import { configureReleaseImpact } from './releases.js';
+import { configurePypi, parsePythonVersionGrouping } from './collectors/pypi.js';
+import { configureLeaderboard, setLeaderboardBaseline } from './leaderboard.js';
+import { appendHistory, getMetricHistory, readHistory } from './history.js';
+import { parseMilestoneRules, setMilestones } from './milestones.js';
+import { loadPreviousResults } from './previous.js';
+import { evaluateFailurePolicy, parseFailurePolicy } from './policy.js';
+import { diffStats, formatStatsDiff, readStats, writeStats } from './stats.js';
+
+// The platform registry and summaries load the chart renderer and its native canvas module,
+// so only the commands that collect or render import them; diff and history work without it
+const loadRenderer = async () => ({
+    ...await import('./registry.js'),
+    ...await import('./runner.js'),
+    ...await import('./utils.js'),
+    ...await import('./preview.js'),
+    ...await import('./summaries/benchmarks.js'),
+})
+
+const USAGE = `Usage: usage-statistics <command> [options]
+
+Commands:
+  collect   Collect metrics from the registries and write a stats JSON file
+            --config <path>             YAML or JSON sources config file
+            --npm <list>                Comma-separated NPM packages
+            --github <list>             Comma-separated GitHub repositories (owner/repo)
+            --pypi <list>               Comma-separated PyPI packages
+            --powershell <list>         Comma-separated PowerShell modules
+            --pypi-mirrors              Count downloads from PyPI mirrors
+            --pypi-keep-unknown         Keep unknown Python versions and systems as an "unknown" bucket
+            --pypi-python-versions <grouping>  Break Python versions down by minor (default) or support (supported/end of life)
+            --github-token <token>      GitHub token (defaults to $GITHUB_TOKEN)
+            --out <path>                Stats JSON to write (default: stats.json)
+            --history <path>            Append a snapshot of this run to a JSONL history file
+            --previous <path>           Stats JSON of the previous run, whose series are reused (default: the --out file)
+            --full-refresh              Ignore the previous run and fetch every series in full
+            --max-concurrency <n>       Maximum requests in flight overall (default: 8)
+            --max-concurrency-per-host <n>  Maximum requests in flight per host (default: 4)
+            --http-timeout <seconds>    Timeout for each HTTP request (default: 30)
+            --http-retries <n>          Retries for transient HTTP failures (default: 3)
+            --record <dir>              Save every HTTP exchange into a fixtures directory
+            --replay <dir>              Serve HTTP exchanges from a fixtures directory, with no network access
+            --fail-on <policy>          Exit with status 1 on failed sources: never, any or a percentage such as 25% (default: never)
+
+  render    Render README markdown and charts from an existing stats JSON file (no network access)
+            --input <path>              Stats JSON to read (default: stats.json)
+            --readme <path>             Update the metrics section of this README
+            --out <path>                Write the markdown to this file instead of stdout
+            --baseline <path>           Add change (Δ) columns measured against this earlier stats JSON
+            --history <path>            Add change (Δ) columns measured against a JSONL history file
+            --period <days>             With --history, compare against the snapshot at least this many days old
+            --anomalies <method>        Flag unusual days and weeks in a "Notable events" section: mad or iqr (default: none)
+            --anomaly-threshold <z>     Robust z-score at which a point is flagged (default: 3.5)
+            --anomaly-window <n>        Number of earlier points each point is compared with (default: 28)
+            --anomaly-lookback <days>   Only report events this many days old or newer (default: 90)
+            --forecast <days>           Add projected downloads for the next 30, 90 or any number of days to the npm and PyPI tables and charts
+            --forecast-threshold <n>    With --forecast, estimate when each package reaches this many total downloads
+            --release-impact <days>     Add a "Release impact" table comparing npm and PyPI downloads this many days before and after each release
+            --milestones <rules>        Add a "Recent milestones" section, such as downloadsTotal:pow10,stars:1000
+            --milestone-recent-days <days>  With --milestones and --history, list milestones crossed this many days back (default: 30)
+            --leaderboard <metric>      Open with every source ranked by a metric, such as downloadsMonthly, downloadsTotal or stars
+            --previous <path>           With --milestones or --leaderboard, the stats JSON of the previous run to compare with
+            --dry-run                   Write nothing; print a diff of the README metrics section and the chart files that would change
+
+  history   Print a metric's values over time from a JSONL history file
+            <path>                      The history file
+            --metric <name>             Metric to print, such as stars, or versions.<version> for per-version downloads
+            --source <platform:name>    Only print this source
+            --json                      Print the series as JSON instead of a markdown table
+
+  diff      Compare two stats JSON files
+            <before> <after>            The older and newer stats files
+            --json                      Print the comparison as JSON instead of a markdown table
+
+Common options:
+  --custom-collectors <list>            Comma-separated local modules registering custom platforms
+  -h, --help                            Show this help
+`
+
+async function collect(args: string[]) {
+    const { collectMetrics, loadCustomPlatforms, parseCommaSeparatedInputs, parseNumberInput, resolveSources } = await loadRenderer()
+    const { values } = parseArgs({
+        args,
+        options: {
+            'config': { type: 'string', default: '' },
+            'npm': { type: 'string', default: '' },
+            'github': { type: 'string', default: '' },
+            'pypi': { type: 'string', default: '' },
+            'powershell': { type: 'string', default: '' },
+            'pypi-mirrors': { type: 'boolean', default: false },
+            'pypi-keep-unknown': { type: 'boolean', default: false },
+            'pypi-python-versions': { type: 'string', default: 'minor' },
+            'github-token': { type: 'string' },
+            'custom-collectors': { type: 'string', default: '' },
+            'out': { type: 'string', default: 'stats.json' },
+            'history': { type: 'string' },
+            'previous': { type: 'string' },
+            'full-refresh': { type: 'boolean', default: false },
+            'max-concurrency': { type: 'string', default: '' },
+            'max-concurrency-per-host': { type: 'string', default: '' },
+            'http-timeout': { type: 'string', default: '' },
+            'http-retries': { type: 'string', default: '' },
+            'record': { type: 'string' },
+            'replay': { type: 'string' },
+            'fail-on': { type: 'string', default: 'never' },
+        },
+    })
+
+    const failOn = parseFailurePolicy(values['fail-on'])
+    configurePypi({
+        mirrors: values['pypi-mirrors'],
+        keepUnknown: values['pypi-keep-unknown'],
+        pythonVersions: parsePythonVersionGrouping(values['pypi-python-versions']),
+    })
+    const maxConcurrency = parseNumberInput('--max-concurrency', values['max-concurrency'])
+    const maxPerHost = parseNumberInput('--max-concurrency-per-host', values['max-concurrency-per-host'])
+    configureScheduler({
+        ...(maxConcurrency !== undefined ? { maxConcurrency } : {}),
+        ...(maxPerHost !== undefined ? { maxPerHost } : {}),
+    })
+    const httpTimeout = parseNumberInput('--http-timeout', values['http-timeout'])
+    const httpRetries = parseNumberInput('--http-retries', values['http-retries'])
+    configureHttp({
+        ...(httpTimeout !== undefined ? { timeoutMs: httpTimeout * 1000 } : {}),
+        ...(httpRetries !== undefined ? { retries: httpRetries } : {}),
+    })
+    if (values.record && values.replay) {
+        throw new Error('--record and --replay cannot be used together')
+    }
+    if (values.record) await configureRecorder('record', values.record)
+    if (values.replay) await configureRecorder('replay', values.replay)
+
+    if (values['github-token']) {
+        process.env.GITHUB_TOKEN = values['github-token']
+    }
+    await loadCustomPlatforms(parseCommaSeparatedInputs(values['custom-collectors']))
+
+    const sources = await resolveSources({
+        npmPackages: parseCommaSeparatedInputs(values.npm),
+        githubRepositories: parseCommaSeparatedInputs(values.github),
+        pypiPackages: parseCommaSeparatedInputs(values.pypi),
+        powershellModules: parseCommaSeparatedInputs(values.powershell),
+        configPath: values.config,
+    })
+    if (sources.length === 0) {
+        throw new Error('No sources to collect: pass --config or at least one of --npm, --github, --pypi, --powershell')
+    }
+
+    await loadPreviousResults(values.previous || values.out, { fullRefresh: values['full-refresh'] })
+    const metrics = await collectMetrics(sources)
+    const failures = evaluateFailurePolicy(metrics, failOn)
+    // A run the policy rejects is not stored, so the next run still builds on the last good one
+    if (!failures.violated) {
+        await writeStats(values.out, metrics)
+        console.log(`Wrote metrics JSON to ${values.out}`)
+        if (values.history) {
+            const snapshots = await appendHistory(values.history, metrics)
+            console.log(`Appended ${snapshots.length} snapshots to ${values.history}`)
+        }
+    }
+
+    for (const metric of failures.failed) {
+        process.stderr.write(`Failed to collect ${metric.platform}:${metric.name}: ${metric.error}\n`)
+    }
+    if (failures.failed.length > 0 || failures.violated) {
+        process.stderr.write(`${failures.message}\n`)
+    }
+    if (failures.violated) {
+        process.exitCode = 1
+    }
+}
+
+async function render(args: string[]) {
+    const { createSummary, loadCustomPlatforms, parseCommaSeparatedInputs, parseNumberInput, previewRun, splitBenchmarks, updateRepositoryReadme } = await loadRenderer()
+    const { values } = parseArgs({
+        args,
+        options: {
+            'input': { type: 'string', default: 'stats.json' },
+            'readme': { type: 'string' },
+            'out': { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+            'baseline': { type: 'string' },
+            'history': { type: 'string' },
+            'period': { type: 'string', default: '' },
+            'anomalies': { type: 'string', default: '' },
+            'anomaly-threshold': { type: 'string', default: '' },
+            'anomaly-window': { type: 'string', default: '' },
+            'anomaly-lookback': { type: 'string', default: '' },
+            'forecast': { type: 'string', default: '' },
+            'forecast-threshold': { type: 'string', default: '' },
+            'release-impact': { type: 'string', default: '' },
+            'leaderboard': { type: 'string', default: '' },
+            'milestones': { type: 'string', default: '' },
+            'milestone-recent-days': { type: 'string', default: '' },
+            'previous': { type: 'string' },
+            'custom-collectors': { type: 'string', default: '' },
+        },
+    })
+
+    await loadCustomPlatforms(parseCommaSeparatedInputs(values['custom-collectors']))
+    const metrics = await readStats(values.input)
+
+    if (values.baseline || values.history) {
+        const source = values.baseline ? 'stats' : 'history'
+        const periodDays = parseNumberInput('--period', values.period)
+        setDeltaBaseline(await loadDeltaBaseline(source, metrics, { statsPath: values.baseline, historyPath: values.history }, periodDays))
+    }
+
+    const threshold = parseNumberInput('--anomaly-threshold', values['anomaly-threshold'])
+    const window = parseNumberInput('--anomaly-window', values['anomaly-window'])
+    const lookbackDays = parseNumberInput('--anomaly-lookback', values['anomaly-lookback'])
+    configureAnomalies({
+        method: parseAnomalyMethod(values.anomalies),
+        ...(threshold !== undefined ? { threshold } : {}),
+        ...(window !== undefined ? { window } : {}),
+        ...(lookbackDays !== undefined ? { lookbackDays } : {}),
+    })
+    configureForecast({
+        horizonDays: parseNumberInput('--forecast', values.forecast) ?? 0,
+        threshold: parseNumberInput('--forecast-threshold', values['forecast-threshold']) ?? 0,
+    })
+    configureReleaseImpact({ windowDays: parseNumberInput('--release-impact', values['release-impact']) ?? 0 })
+
+    const previous = values.previous ? await readStats(values.previous) : []
+    configureLeaderboard(values.leaderboard)
+    setLeaderboardBaseline(previous)
+    const milestoneRules = parseMilestoneRules(values.milestones)
+    if (milestoneRules.length > 0) {
+        const recentDays = parseNumberInput('--milestone-recent-days', values['milestone-recent-days'])
+        setMilestones(milestoneRules, splitBenchmarks(metrics).own, previous, values.history ? await readHistory(values.history) : [], recentDays)
+    }
+
+    if (values['dry-run']) {
+        process.stdout.write(await previewRun(metrics, values.readme))
+        return
+    }
+
+    if (values.readme) {
+        await updateRepositoryReadme(metrics, values.readme)
+        console.log(`Updated ${values.readme} from ${values.input}`)
+        return
+    }
+
+    const summary = await createSummary(metrics)
+    if (values.out) {
+        await writeFile(values.out, summary, 'utf8')
+        console.log(`Wrote summary to ${values.out}`)
+    } else {
+        process.stdout.write(summary)
+    }
+}
+
+async function history(args: string[]) {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'metric': { type: 'string' },
+            'source': { type: 'string' },
+            'json': { type: 'boolean', default: false },
+        },
+    })
+
+    const [historyPath] = positionals
+    if (!historyPath || !values.metric) {
+        throw new Error('history expects a history file and a metric: usage-statistics history <path> --metric <name>')
+    }
+
+    const series = getMetricHistory(await readHistory(historyPath), values.metric)
+    const entries = Array.from(series.entries()).filter(([key]) => !values.source || key === values.source)
+    if (values.json) {
+        process.stdout.write(`${JSON.stringify(Object.fromEntries(entries), null, 2)}\n`)
+        return
+    }
+    if (entries.length === 0) {
+        process.stdout.write(`No history for ${values.metric}${values.source ? ` on ${values.source}` : ''}.\n`)
+        return
+    }
+
+    let output = `| Source | Timestamp | ${values.metric} |\n| --- | --- | --- |\n`
+    for (const [key, points] of entries) {
+        for (const point of points) {
+            output += `| ${key} | ${point.timestamp} | ${point.value.toLocaleString()} |\n`
+        }
+    }
+    process.stdout.write(output)
+}
+
+async function diff(args: string[]) {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'json': { type: 'boolean', default: false },
+        },
+    })
+
+    const [beforePath, afterPath] = positionals
+    if (!beforePath || !afterPath) {
+        throw new Error('diff expects two stats files: usage-statistics diff <before> <after>')
+    }
+
+    const diffs = diffStats(await readStats(beforePath), await readStats(afterPath))
+    process.stdout.write(values.json ? `${JSON.stringify(diffs, null, 2)}\n` : formatStatsDiff(diffs))
+}
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+    collect,
+    render,
+    history,
+    diff,
+}
+
+const [command, ...args] = process.argv.slice(2)
+
+if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(USAGE)
+} else if (!commands[command]) {
+    process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`)
+    process.exitCode = 1
+} else {
+    try {
+        await commands[command](args)
+    } catch (error) {
+        process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+        process.exitCode = 1
+    }
+}
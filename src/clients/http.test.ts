@@ -0,0 +1,150 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { configureHttp, errorKindOf, fetchJson, httpFetch, HttpError } from './http.js';
+
+// Responses the fake upstream gives in turn; the last one repeats
+let responses: (() => Response | Promise<Response>)[]
+let calls: number
+// What each attempt sent
+let sent: RequestInit[]
+
+function status(code: number, headers: Record<string, string> = {}) {
+    return () => new Response(JSON.stringify({ status: code }), { status: code, headers })
+}
+
+const networkError = () => { throw new TypeError('fetch failed') }
+
+async function fakeFetch(_input: string | URL | Request, init?: RequestInit) {
+    const next = responses[Math.min(calls, responses.length - 1)]
+    calls++
+    sent.push(init || {})
+    // A response that never comes, unless the request is aborted
+    if (!next) {
+        return new Promise<Response>((_, reject) => init?.signal?.addEventListener('abort', () => reject(new Error('aborted'))))
+    }
+    return next()
+}
+
+async function failure(promise: Promise<unknown>): Promise<HttpError> {
+    try {
+        await promise
+    } catch (error) {
+        expect(error).toBeInstanceOf(HttpError)
+        return error as HttpError
+    }
+    throw new Error('expected the request to fail')
+}
+
+describe('HTTP client', () => {
+    const realFetch = globalThis.fetch
+    const ENDPOINT = 'https://api.example.test/data'
+
+    beforeEach(() => {
+        globalThis.fetch = fakeFetch as typeof fetch
+        configureHttp({ retries: 2, timeoutMs: 50, baseDelayMs: 1, maxDelayMs: 5 })
+        calls = 0
+        sent = []
+    })
+
+    afterAll(() => {
+        globalThis.fetch = realFetch
+        configureHttp({ retries: 3, timeoutMs: 30_000, baseDelayMs: 500, maxDelayMs: 30_000 })
+    })
+
+    test('retries transient statuses until one succeeds', async () => {
+        responses = [status(503), status(429), status(200)]
+        expect(await fetchJson<{ status: number }>(ENDPOINT)).toEqual({ status: 200 })
+        expect(calls).toBe(3)
+    })
+
+    test('gives up after the configured retries', async () => {
+        responses = [status(502)]
+        const error = await failure(fetchJson(ENDPOINT))
+        expect(error.kind).toBe('transient')
+        expect(error.attempts).toBe(3)
+        expect(error.message).toBe(`Failed after 3 attempts: ${ENDPOINT} (502)`)
+        expect(calls).toBe(3)
+    })
+
+    test('does not retry missing or rejected requests', async () => {
+        responses = [status(404)]
+        expect((await failure(fetchJson(ENDPOINT))).kind).toBe('not-found')
+        expect(calls).toBe(1)
+
+        calls = 0
+        responses = [status(400)]
+        const rejected = await failure(fetchJson(ENDPOINT))
+        expect(rejected.kind).toBe('permanent')
+        expect(rejected.status).toBe(400)
+        expect(calls).toBe(1)
+    })
+
+    test('retries network errors and reports them as transient', async () => {
+        responses = [networkError, status(200)]
+        expect(await fetchJson<{ status: number }>(ENDPOINT)).toEqual({ status: 200 })
+
+        calls = 0
+        responses = [networkError]
+        const error = await failure(fetchJson(ENDPOINT))
+        expect(error.kind).toBe('transient')
+        expect(error.message).toBe(`Failed after 3 attempts: ${ENDPOINT} (fetch failed)`)
+    })
+
+    test('caps a Retry-After delay at the maximum backoff', async () => {
+        responses = [status(429, { 'retry-after': '120' }), status(200)]
+        const started = Date.now()
+        expect(await fetchJson<{ status: number }>(ENDPOINT)).toEqual({ status: 200 })
+        expect(Date.now() - started).toBeLessThan(1_000)
+    })
+
+    test('times out a request that does not answer', async () => {
+        configureHttp({ retries: 0 })
+        responses = []
+        const error = await failure(fetchJson(ENDPOINT))
+        expect(error.message).toBe(`Failed after 1 attempts: ${ENDPOINT} (timed out after 50ms)`)
+    })
+
+    test('rejects a body that is not JSON', async () => {
+        responses = [() => new Response('<html>')]
+        expect((await failure(fetchJson(ENDPOINT))).kind).toBe('permanent')
+    })
+
+    test('hands non-2xx responses back from the fetch-compatible function', async () => {
+        responses = [status(404)]
+        expect((await httpFetch(ENDPOINT)).status).toBe(404)
+    })
+
+    test('sends the method, headers and body of a Request, on every attempt', async () => {
+        responses = [status(503), status(201)]
+        const request = new Request(ENDPOINT, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{"name":"value"}' })
+        expect((await httpFetch(request)).status).toBe(201)
+        expect(sent.map(init => [init.method, new Headers(init.headers).get('content-type'), init.body])).toEqual([
+            ['POST', 'application/json', '{"name":"value"}'],
+            ['POST', 'application/json', '{"name":"value"}'],
+        ])
+
+        // Options passed alongside the request win
+        responses = [status(200)]
+        await httpFetch(new Request(ENDPOINT, { method: 'POST', body: 'x' }), { method: 'PUT' })
+        expect(sent[2].method).toBe('PUT')
+    })
+
+    test('removes its abort listener from the caller signal after each attempt', async () => {
+        responses = [status(503), status(503), status(200)]
+        const controller = new AbortController()
+        let listeners = 0
+        const add = controller.signal.addEventListener.bind(controller.signal)
+        const remove = controller.signal.removeEventListener.bind(controller.signal)
+        controller.signal.addEventListener = ((...args: Parameters<AbortSignal['addEventListener']>) => { listeners++; add(...args) }) as AbortSignal['addEventListener']
+        controller.signal.removeEventListener = ((...args: Parameters<AbortSignal['removeEventListener']>) => { listeners--; remove(...args) }) as AbortSignal['removeEventListener']
+
+        await fetchJson(ENDPOINT, { signal: controller.signal })
+        expect(calls).toBe(3)
+        expect(listeners).toBe(0)
+    })
+
+    test('classifies errors from SDKs by their status', () => {
+        expect(errorKindOf({ status: 404 })).toBe('not-found')
+        expect(errorKindOf({ status: 503 })).toBe('transient')
+        expect(errorKindOf(new Error('bad input'))).toBe('permanent')
+    })
+})
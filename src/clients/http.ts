@@ -0,0 +1,204 @@
+/**
+ * Shared HTTP client: scheduling, per-request timeouts, retries with
+ * exponential backoff and jitter, Retry-After, and error classification
+ */
+
+import * as core from '@actions/core';
+import type { ErrorKind } from '../collectors/types.js';
+import { getHttpMode, recordExchange, replayExchange } from './recorder.js';
+import { hostOf, schedule } from './scheduler.js';
+
+export interface HttpOptions {
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_OPTIONS: HttpOptions = {
+  timeoutMs: 30_000,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+}
+
+let options: HttpOptions = { ...DEFAULT_OPTIONS }
+
+// Statuses worth retrying: timeouts, rate limits and server-side failures
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+const NOT_FOUND_STATUSES = new Set([404, 410])
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+export class HttpError extends Error {
+  readonly kind: ErrorKind;
+  readonly url?: string;
+  readonly status?: number;
+  readonly attempts?: number;
+
+  constructor(message: string, details: { kind: ErrorKind; url?: string; status?: number; attempts?: number }) {
+    super(message);
+    this.name = 'HttpError';
+    this.kind = details.kind;
+    this.url = details.url;
+    this.status = details.status;
+    this.attempts = details.attempts;
+  }
+}
+
+export function configureHttp(next: Partial<HttpOptions>) {
+  options = { ...options, ...next }
+  if (!(options.timeoutMs > 0) || !(options.retries >= 0)) {
+    throw new Error(`Invalid HTTP settings (timeout=${options.timeoutMs}ms, retries=${options.retries})`)
+  }
+}
+
+export function classifyStatus(status: number): ErrorKind {
+  if (NOT_FOUND_STATUSES.has(status)) return 'not-found'
+  if (TRANSIENT_STATUSES.has(status)) return 'transient'
+  return 'permanent'
+}
+
+function backoffDelay(attempt: number) {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  // Equal jitter: half fixed, half random, so retries from parallel requests spread out
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+function retryAfterDelay(response: Response): number | undefined {
+  const header = response.headers.get('retry-after')
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+  return undefined
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// A single attempt: fetch and buffer the body within the timeout, holding a scheduler slot
+async function attempt(url: string, init?: RequestInit): Promise<Response> {
+  if (getHttpMode() === 'replay') {
+    return replayExchange(url, init)
+  }
+
+  const response = await schedule(hostOf(url), async () => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs)
+    // Removed again below, so a long-lived caller signal does not collect a listener per attempt
+    const abort = () => controller.abort()
+    init?.signal?.addEventListener('abort', abort, { once: true })
+    try {
+      const res = await fetch(url, { ...init, signal: controller.signal })
+      const body = NULL_BODY_STATUSES.has(res.status) ? null : await res.arrayBuffer()
+      return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers })
+    } catch (error) {
+      if (controller.signal.aborted && !init?.signal?.aborted) {
+        throw new Error(`timed out after ${options.timeoutMs}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      init?.signal?.removeEventListener('abort', abort)
+    }
+  })
+
+  if (getHttpMode() === 'record') {
+    await recordExchange(url, init, response)
+  }
+  return response
+}
+
+/**
+ * Send a request, retrying network errors and transient statuses
+ * @returns The final response (which may still be a non-2xx status) and the number of attempts made
+ */
+async function send(url: string, init?: RequestInit): Promise<{ response: Response; attempts: number }> {
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    const attempts = attemptNumber + 1
+    let delay: number
+    try {
+      const response = await attempt(url, init)
+      if (!TRANSIENT_STATUSES.has(response.status) || attemptNumber >= options.retries) {
+        return { response, attempts }
+      }
+      delay = Math.min(retryAfterDelay(response) ?? backoffDelay(attemptNumber), options.maxDelayMs)
+      core.debug(`HTTP ${response.status} from ${url}, retrying in ${Math.round(delay)}ms (attempt ${attempts}/${options.retries + 1})`)
+    } catch (error) {
+      // Replay misses and caller aborts are not worth retrying
+      if (init?.signal?.aborted || error instanceof HttpError) throw error
+      const reason = error instanceof Error ? error.message : String(error)
+      if (attemptNumber >= options.retries) {
+        throw new HttpError(`Failed after ${attempts} attempts: ${url} (${reason})`, { kind: 'transient', url, attempts })
+      }
+      delay = backoffDelay(attemptNumber)
+      core.debug(`Request to ${url} failed (${reason}), retrying in ${Math.round(delay)}ms (attempt ${attempts}/${options.retries + 1})`)
+    }
+    await sleep(delay)
+  }
+}
+
+/**
+ * Turn a non-2xx response into an HttpError that says why the request failed
+ */
+export function httpErrorFor(url: string, response: Response, attempts: number): HttpError {
+  const kind = classifyStatus(response.status)
+  const status = `${response.status}${response.statusText ? ` ${response.statusText}` : ''}`
+  const message = kind === 'not-found'
+    ? `Not found: ${url} (${status})`
+    : kind === 'transient'
+      ? `Failed after ${attempts} attempts: ${url} (${status})`
+      : `Request failed: ${url} (${status})`
+  return new HttpError(message, { kind, url, status: response.status, attempts })
+}
+
+/**
+ * fetch-compatible function with scheduling, timeouts and retries.
+ * Non-2xx responses are returned rather than thrown, so it can be handed to SDKs such as Octokit.
+ */
+export async function httpFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  if (input instanceof Request) {
+    // The body is read once up front so that retries can send it again; init still wins over the request
+    const body = input.method === 'GET' || input.method === 'HEAD' ? undefined : await input.text()
+    init = { method: input.method, headers: input.headers, signal: input.signal, ...(body ? { body } : {}), ...init }
+  }
+  const { response } = await send(url, init)
+  return response
+}
+
+export async function fetchText(url: string, init?: RequestInit): Promise<string> {
+  const { response, attempts } = await send(url, init)
+  if (!response.ok) {
+    throw httpErrorFor(url, response, attempts)
+  }
+  return response.text()
+}
+
+export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const text = await fetchText(url, init)
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new HttpError(`Invalid JSON from ${url}`, { kind: 'permanent', url })
+  }
+}
+
+/**
+ * Classify any error thrown while collecting a source
+ */
+export function errorKindOf(error: unknown): ErrorKind {
+  if (error instanceof HttpError) return error.kind
+  const status = (error as { status?: unknown })?.status
+  if (typeof status === 'number') return classifyStatus(status)
+  return 'permanent'
+}
+
+/**
+ * Describe an error for `MetricResult.error`
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
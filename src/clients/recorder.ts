@@ -0,0 +1,148 @@
+/**
+ * HTTP record/replay: save every exchange made by the collectors to a fixtures
+ * directory, or serve those exchanges back without touching the network
+ */
+
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { now, setClock } from '../clock.js';
+import type { MetricResult } from '../collectors/types.js';
+import { HttpError } from './http.js';
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+interface FixturesManifest {
+  recordedAt: string;
+  /**
+   * The previous results the recorded run started from. They decide which URLs collectors request
+   * (npm only fetches days after its stored history), so replays start from them too.
+   */
+  previous?: {
+    results: MetricResult[];
+    fullRefresh: boolean;
+  };
+}
+
+const MANIFEST_FILE = 'manifest.json'
+
+// Only headers the collectors and SDKs read back are kept; nothing credential-bearing is written
+const RECORDED_HEADERS = ['content-type', 'link', 'retry-after', 'etag', 'last-modified']
+
+let mode: HttpMode = 'live'
+let fixturesDir = ''
+let manifest: FixturesManifest | undefined
+
+export function getHttpMode(): HttpMode {
+  return mode
+}
+
+/**
+ * Switch between live requests, recording and replaying.
+ * Recording stamps the fixtures with the current time; replaying pins the clock to that time
+ * so date-based URLs (such as npm download ranges) match what was recorded.
+ */
+export async function configureRecorder(nextMode: HttpMode, dir: string) {
+  if (!['live', 'record', 'replay'].includes(nextMode)) {
+    throw new Error(`Unknown HTTP mode "${nextMode}" (expected live, record or replay)`)
+  }
+  mode = nextMode
+  fixturesDir = dir
+
+  if (mode === 'record') {
+    await mkdir(fixturesDir, { recursive: true })
+    manifest = { recordedAt: now().toISOString() }
+    await writeManifest(manifest)
+  } else if (mode === 'replay') {
+    const manifestPath = join(fixturesDir, MANIFEST_FILE)
+    if (!existsSync(manifestPath)) {
+      throw new Error(`No recorded fixtures in ${fixturesDir} (missing ${MANIFEST_FILE})`)
+    }
+    manifest = JSON.parse(await readFile(manifestPath, 'utf8')) as FixturesManifest
+    setClock(new Date(manifest.recordedAt))
+  } else {
+    manifest = undefined
+  }
+}
+
+async function writeManifest(next: FixturesManifest) {
+  await writeFile(join(fixturesDir, MANIFEST_FILE), JSON.stringify(next, null, 2), 'utf8')
+}
+
+/**
+ * Save the previous results a recording starts from alongside its fixtures
+ */
+export async function recordPreviousResults(results: MetricResult[], fullRefresh: boolean) {
+  if (mode !== 'record' || !manifest) return
+  manifest = { ...manifest, previous: { results, fullRefresh } }
+  await writeManifest(manifest)
+}
+
+/**
+ * The previous results saved with the fixtures being replayed; none for fixtures recorded without them
+ */
+export function getRecordedPreviousResults(): { results: MetricResult[]; fullRefresh: boolean } {
+  return manifest?.previous ?? { results: [], fullRefresh: false }
+}
+
+function requestBody(init?: RequestInit) {
+  return typeof init?.body === 'string' ? init.body : undefined
+}
+
+function fixturePath(method: string, url: string, body?: string) {
+  const parsed = new URL(url)
+  const hash = createHash('sha256').update(`${method} ${url}\n${body ?? ''}`).digest('hex').slice(0, 16)
+  const slug = `${method}${parsed.pathname}`.replace(/[^a-zA-Z0-9.-]+/g, '_').slice(0, 80)
+  return join(fixturesDir, parsed.host.replace(/[^a-zA-Z0-9.-]+/g, '_'), `${slug}-${hash}.json`)
+}
+
+export async function recordExchange(url: string, init: RequestInit | undefined, response: Response) {
+  const method = (init?.method || 'GET').toUpperCase()
+  const body = requestBody(init)
+  const headers: Record<string, string> = {}
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name)
+    if (value !== null) headers[name] = value
+  }
+
+  const exchange: RecordedExchange = {
+    request: { method, url, ...(body !== undefined ? { body } : {}) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.clone().text(),
+    },
+  }
+
+  const path = fixturePath(method, url, body)
+  await mkdir(join(path, '..'), { recursive: true })
+  await writeFile(path, JSON.stringify(exchange, null, 2), 'utf8')
+}
+
+export async function replayExchange(url: string, init?: RequestInit): Promise<Response> {
+  const method = (init?.method || 'GET').toUpperCase()
+  const path = fixturePath(method, url, requestBody(init))
+  if (!existsSync(path)) {
+    throw new HttpError(`No recorded response for ${method} ${url} in ${fixturesDir}`, { kind: 'permanent', url })
+  }
+
+  const exchange = JSON.parse(await readFile(path, 'utf8')) as RecordedExchange
+  const { status, statusText, headers, body } = exchange.response
+  return new Response([101, 204, 205, 304].includes(status) ? null : body, { status, statusText, headers })
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { configureScheduler, getSchedulerStats, hostOf, schedule } from './scheduler.js';
+
+// A request that stays in flight until the test settles it
+function deferred() {
+    let resolve!: () => void
+    let reject!: (error: Error) => void
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return { promise, resolve, reject }
+}
+
+// Let queued tasks start after a slot frees up
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('request scheduler', () => {
+    afterEach(() => {
+        configureScheduler({ maxConcurrency: 8, maxPerHost: 4 })
+    })
+
+    test('caps the requests in flight per host and starts queued ones in order', async () => {
+        configureScheduler({ maxConcurrency: 8, maxPerHost: 2 })
+        const requests = Array.from({ length: 4 }, () => deferred())
+        const started: number[] = []
+        const done = requests.map((request, index) => schedule('per-host.example', () => {
+            started.push(index)
+            return request.promise
+        }))
+
+        expect(started).toEqual([0, 1])
+        requests[1].resolve()
+        await tick()
+        expect(started).toEqual([0, 1, 2])
+        requests[0].resolve()
+        requests[2].resolve()
+        requests[3].resolve()
+        await Promise.all(done)
+        expect(started).toEqual([0, 1, 2, 3])
+    })
+
+    test('caps the requests in flight overall, letting other hosts past a saturated one', async () => {
+        configureScheduler({ maxConcurrency: 2, maxPerHost: 1 })
+        const first = deferred()
+        const second = deferred()
+        const other = deferred()
+        const started: string[] = []
+        const done = [
+            schedule('busy.example', () => { started.push('busy 1'); return first.promise }),
+            schedule('busy.example', () => { started.push('busy 2'); return second.promise }),
+            schedule('idle.example', () => { started.push('idle'); return other.promise }),
+        ]
+
+        expect(started).toEqual(['busy 1', 'idle'])
+        other.resolve()
+        await tick()
+        // The free slot cannot go to the saturated host
+        expect(started).toEqual(['busy 1', 'idle'])
+        first.resolve()
+        await tick()
+        expect(started).toEqual(['busy 1', 'idle', 'busy 2'])
+        second.resolve()
+        await Promise.all(done)
+    })
+
+    test('frees the slot of a failed request and counts the failure', async () => {
+        configureScheduler({ maxConcurrency: 8, maxPerHost: 1 })
+        const failing = schedule('failing.example', () => Promise.reject(new Error('boom')))
+        const next = schedule('failing.example', () => Promise.resolve('ok'))
+
+        await expect(failing).rejects.toThrow('boom')
+        expect(await next).toBe('ok')
+        const hostStats = getSchedulerStats().find(entry => entry.host === 'failing.example')
+        expect(hostStats).toMatchObject({ requests: 2, failures: 1, peakQueued: 1 })
+    })
+
+    test('rejects limits below one', () => {
+        expect(() => configureScheduler({ maxConcurrency: 0 })).toThrow('Scheduler limits must be at least 1')
+    })
+
+    test('keys requests by host, port included', () => {
+        expect(hostOf('https://api.npmjs.org/downloads/point/last-day/react')).toBe('api.npmjs.org')
+        expect(hostOf('http://localhost:8080/api')).toBe('localhost:8080')
+    })
+})
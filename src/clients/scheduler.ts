@@ -0,0 +1,143 @@
+/**
+ * Global request scheduler capping concurrent requests overall and per host
+ */
+
+import * as core from '@actions/core';
+
+export interface SchedulerOptions {
+  maxConcurrency: number;
+  maxPerHost: number;
+}
+
+interface QueuedTask {
+  host: string;
+  queuedAt: number;
+  run: () => void;
+}
+
+interface HostStats {
+  requests: number;
+  failures: number;
+  peakQueued: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+  maxConcurrency: 8,
+  maxPerHost: 4,
+}
+
+let options: SchedulerOptions = { ...DEFAULT_OPTIONS }
+let active = 0
+const activeByHost = new Map<string, number>()
+const queue: QueuedTask[] = []
+const stats = new Map<string, HostStats>()
+
+/**
+ * Update the concurrency limits. Applies to requests scheduled from now on.
+ */
+export function configureScheduler(next: Partial<SchedulerOptions>) {
+  options = { ...options, ...next }
+  if (!(options.maxConcurrency >= 1) || !(options.maxPerHost >= 1)) {
+    throw new Error(`Scheduler limits must be at least 1 (got max-concurrency=${options.maxConcurrency}, max-concurrency-per-host=${options.maxPerHost})`)
+  }
+  drain()
+}
+
+export function hostOf(url: string) {
+  return new URL(url).host
+}
+
+function statsFor(host: string): HostStats {
+  let hostStats = stats.get(host)
+  if (!hostStats) {
+    hostStats = { requests: 0, failures: 0, peakQueued: 0, totalWaitMs: 0, maxWaitMs: 0, totalLatencyMs: 0, maxLatencyMs: 0 }
+    stats.set(host, hostStats)
+  }
+  return hostStats
+}
+
+function canStart(host: string) {
+  return active < options.maxConcurrency && (activeByHost.get(host) || 0) < options.maxPerHost
+}
+
+// Start queued tasks in FIFO order, skipping those whose host is saturated
+function drain() {
+  for (let i = 0; i < queue.length && active < options.maxConcurrency;) {
+    const task = queue[i]
+    if (canStart(task.host)) {
+      queue.splice(i, 1)
+      task.run()
+    } else {
+      i++
+    }
+  }
+}
+
+/**
+ * Run a request once a slot is free for its host
+ * @param host - The host the request goes to, used for the per-host cap
+ * @param task - The request; the slot is held until the returned promise settles
+ */
+export function schedule<T>(host: string, task: () => Promise<T>): Promise<T> {
+  const hostStats = statsFor(host)
+
+  return new Promise<T>((resolve, reject) => {
+    const queuedAt = Date.now()
+    const run = () => {
+      active++
+      activeByHost.set(host, (activeByHost.get(host) || 0) + 1)
+
+      const startedAt = Date.now()
+      const waitMs = startedAt - queuedAt
+      hostStats.requests++
+      hostStats.totalWaitMs += waitMs
+      hostStats.maxWaitMs = Math.max(hostStats.maxWaitMs, waitMs)
+
+      task()
+        .then(resolve, error => {
+          hostStats.failures++
+          reject(error)
+        })
+        .finally(() => {
+          const latencyMs = Date.now() - startedAt
+          hostStats.totalLatencyMs += latencyMs
+          hostStats.maxLatencyMs = Math.max(hostStats.maxLatencyMs, latencyMs)
+          active--
+          activeByHost.set(host, (activeByHost.get(host) || 1) - 1)
+          drain()
+        })
+    }
+
+    if (canStart(host) && queue.length === 0) {
+      run()
+    } else {
+      queue.push({ host, queuedAt, run })
+      const queuedForHost = queue.filter(queued => queued.host === host).length
+      hostStats.peakQueued = Math.max(hostStats.peakQueued, queuedForHost)
+      drain()
+    }
+  })
+}
+
+export function getSchedulerStats() {
+  return Array.from(stats.entries()).map(([host, hostStats]) => ({
+    host,
+    ...hostStats,
+    avgWaitMs: hostStats.requests ? Math.round(hostStats.totalWaitMs / hostStats.requests) : 0,
+    avgLatencyMs: hostStats.requests ? Math.round(hostStats.totalLatencyMs / hostStats.requests) : 0,
+  }))
+}
+
+/**
+ * Write per-host queue and latency statistics to the debug log
+ */
+export function logSchedulerStats() {
+  core.debug(`Request scheduler limits: max-concurrency=${options.maxConcurrency}, max-concurrency-per-host=${options.maxPerHost}`)
+  for (const hostStats of getSchedulerStats()) {
+    core.debug(`${hostStats.host}: ${hostStats.requests} requests, ${hostStats.failures} failed, peak queue ${hostStats.peakQueued}, wait avg ${hostStats.avgWaitMs}ms / max ${hostStats.maxWaitMs}ms, latency avg ${hostStats.avgLatencyMs}ms / max ${hostStats.maxLatencyMs}ms`)
+  }
+}
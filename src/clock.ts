@@ -0,0 +1,16 @@
+/**
+ * Shared clock so replayed runs see the same "now" as the run they were recorded from
+ */
+
+let fixedNow: Date | undefined
+
+export function now(): Date {
+    return fixedNow ? new Date(fixedNow) : new Date()
+}
+
+/**
+ * Pin the clock to a fixed instant, or pass undefined to follow the system clock again
+ */
+export function setClock(date: Date | undefined) {
+    fixedNow = date ? new Date(date) : undefined
+}
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { configureHttp } from '../clients/http.js';
+import { setClock } from '../clock.js';
+import { setPreviousResults } from '../previous.js';
+import { collectGithub } from './github.js';
+import type { GitHubMetrics, MetricResult } from './types.js';
+
+const REPOSITORY = 'example/usage-statistics-fixture'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// What the fake GitHub API serves: either a failure, or a repository whose traffic covers the 14 days up to `today`
+let upstream: { failing: true } | { failing: false; today: string; viewsPerDay: number }
+
+function json(body: unknown, status = 200) {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+}
+
+function trafficDays(today: string, count: number) {
+    return Array.from({ length: 14 }, (_, index) => ({
+        timestamp: `${new Date(Date.parse(`${today}T00:00:00Z`) - (13 - index) * DAY_MS).toISOString().slice(0, 10)}T00:00:00Z`,
+        count,
+        uniques: 1,
+    }))
+}
+
+async function fakeGitHub(input: string | URL | Request) {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+    if (upstream.failing) return json({ message: 'Server Error' }, 502)
+    if (url.pathname === '/graphql') return json({ data: { repository: null } })
+    if (url.pathname.endsWith('/traffic/views')) {
+        const views = trafficDays(upstream.today, upstream.viewsPerDay)
+        return json({ count: views.length * upstream.viewsPerDay, uniques: views.length, views })
+    }
+    if (url.pathname.endsWith('/traffic/clones')) {
+        const clones = trafficDays(upstream.today, 1)
+        return json({ count: clones.length, uniques: clones.length, clones })
+    }
+    return json({ full_name: REPOSITORY, stargazers_count: 10, forks_count: 2, watchers_count: 3, created_at: '2024-01-01T00:00:00Z', pushed_at: '2025-06-01T00:00:00Z' })
+}
+
+// One scheduled run: the previous run's results go through stats.json, then the repository is collected
+async function run(today: string, previous: MetricResult<GitHubMetrics>[]) {
+    setClock(new Date(`${today}T12:00:00Z`))
+    setPreviousResults(JSON.parse(JSON.stringify(previous)))
+    return collectGithub(REPOSITORY)
+}
+
+describe('GitHub traffic history', () => {
+    const realFetch = globalThis.fetch
+    const githubToken = process.env.GITHUB_TOKEN
+
+    beforeAll(() => {
+        globalThis.fetch = fakeGitHub as typeof fetch
+        process.env.GITHUB_TOKEN = 'test-token'
+        configureHttp({ retries: 0 })
+    })
+
+    afterAll(() => {
+        globalThis.fetch = realFetch
+        process.env.GITHUB_TOKEN = githubToken
+        configureHttp({ retries: 3 })
+        setClock(undefined)
+        setPreviousResults([])
+    })
+
+    beforeEach(() => {
+        upstream = { failing: false, today: '2025-06-14', viewsPerDay: 10 }
+    })
+
+    test('merges each run into the stored history', async () => {
+        const first = await run('2025-06-14', [])
+        upstream = { failing: false, today: '2025-06-21', viewsPerDay: 20 }
+        const second = await run('2025-06-21', [first])
+
+        expect(second.metrics?.trafficSince).toBe('2025-06-01')
+        expect(second.metrics?.trafficRange).toHaveLength(21)
+        // The overlapping days take the fresh counts
+        expect(second.metrics?.viewsTotal).toBe(7 * 10 + 14 * 20)
+    })
+
+    test('keeps the history through failed runs until the next successful one', async () => {
+        const first = await run('2025-06-14', [])
+
+        upstream = { failing: true }
+        const failed = await run('2025-06-21', [first])
+        expect(failed.error).toBeDefined()
+        expect(failed.metrics).toBeUndefined()
+        expect(failed.retained?.trafficRange).toEqual(first.metrics!.trafficRange)
+
+        // A second failure in a row still passes the history on
+        const failedAgain = await run('2025-06-22', [failed])
+        expect(failedAgain.retained?.trafficRange).toHaveLength(14)
+
+        upstream = { failing: false, today: '2025-07-10', viewsPerDay: 20 }
+        const recovered = await run('2025-07-10', [failedAgain])
+        expect(recovered.error).toBeUndefined()
+        expect(recovered.metrics?.trafficSince).toBe('2025-06-01')
+        expect(recovered.metrics?.trafficRange).toHaveLength(28)
+        expect(recovered.metrics?.viewsTotal).toBe(14 * 10 + 14 * 20)
+        expect(recovered.metrics?.clonesTotal).toBe(28)
+    })
+
+    test('a repository that never succeeded retains nothing', async () => {
+        upstream = { failing: true }
+        const failed = await run('2025-06-14', [])
+        expect(failed.error).toBeDefined()
+        expect(failed.retained).toBeUndefined()
+    })
+})
@@ -4,8 +4,11 @@
 
 import { Octokit } from '@octokit/rest';
 import { graphql } from '@octokit/graphql';
-import type { MetricResult } from './types.js';
+import type { GitHubMetrics, GitHubReleaseDownloads, GitHubTrafficDay, MetricResult, SourceConfig, SourceOptions } from './types.js';
 import * as core from '@actions/core';
+import { describeError, errorKindOf, httpFetch, HttpError } from '../clients/http.js';
+import { now } from '../clock.js';
+import { getPreviousResult, retainPreviousMetrics } from '../previous.js';
 
 const PlatformSettings = {
   name: 'GitHub',
@@ -149,8 +152,16 @@ interface GraphQLReleasesResponse {
   } | null;
 }
 
+// Entry for a day that this run's counts overwrite, since GitHub revises recent days
+function trafficDay(trafficByDay: Map<string, GitHubTrafficDay>, timestamp: string): GitHubTrafficDay {
+  const day = timestamp.slice(0, 10);
+  const stored = trafficByDay.get(day);
+  const entry = { day, views: stored?.views || 0, uniqueViews: stored?.uniqueViews || 0, clones: stored?.clones || 0, uniqueClones: stored?.uniqueClones || 0 };
+  trafficByDay.set(day, entry);
+  return entry;
+}
 
-  export async function collectGithub(repository: string): Promise<MetricResult> {
+  export async function collectGithub(repository: string, options: SourceOptions = {}): Promise<MetricResult<GitHubMetrics>> {
     try {
       const [owner, repo] = repository.split('/');
       
@@ -159,10 +170,11 @@ interface GraphQLReleasesResponse {
       }
       
       // Initialize Octokit for REST API calls
-      const token = core.getInput('github-token');
+      const token = core.getInput('github-token') || process.env.GITHUB_TOKEN;
       const octokit = new Octokit({
         auth: token,
-        userAgent: 'usage-statistics-tracker'
+        userAgent: 'usage-statistics-tracker',
+        request: { fetch: httpFetch },
       });
       
       if (!token) {
@@ -177,6 +189,7 @@ interface GraphQLReleasesResponse {
           headers: {
             authorization: token ? `token ${token}` : undefined,
           },
+          request: { fetch: httpFetch },
         });
         
         // Fetch basic repository data (without releases)
@@ -196,60 +209,65 @@ interface GraphQLReleasesResponse {
       let totalReleaseDownloads = 0;
       let latestReleaseDownloads = 0;
       let releaseCount = 0;
-      let downloadRange = [];
+      const downloadsRange: GitHubReleaseDownloads[] = [];
       let latestRelease = null;
       
-      try {
-        const graphqlClient = graphql.defaults({
-          headers: {
-            authorization: token ? `token ${token}` : undefined,
-          },
-        });
+      // Release data can be skipped per source
+      if (options.releases !== false) {
+        try {
+          const graphqlClient = graphql.defaults({
+            headers: {
+              authorization: token ? `token ${token}` : undefined,
+            },
+            request: { fetch: httpFetch },
+          });
         
-        // Fetch releases data
-        const releasesResponse = await graphqlClient<GraphQLReleasesResponse>(RELEASES_QUERY, {
-          owner,
-          name: repo,
-          first: 100
-        });
+          // Fetch releases data
+          const releasesResponse = await graphqlClient<GraphQLReleasesResponse>(RELEASES_QUERY, {
+            owner,
+            name: repo,
+            first: 100
+          });
         
-        if (releasesResponse.repository?.releases?.nodes) {
-          const releases = releasesResponse.repository.releases.nodes.filter(Boolean);
-          releaseCount = releases.length;
+          if (releasesResponse.repository?.releases?.nodes) {
+            const releases = releasesResponse.repository.releases.nodes.filter(Boolean);
+            releaseCount = releases.length;
           
-          for (const release of releases) {
-            let releaseDownloads = 0;
-            if (release?.releaseAssets?.nodes) {
-              for (const asset of release.releaseAssets.nodes) {
-                if (asset) {
-                  releaseDownloads += asset.downloadCount || 0;
+            for (const release of releases) {
+              let releaseDownloads = 0;
+              if (release?.releaseAssets?.nodes) {
+                for (const asset of release.releaseAssets.nodes) {
+                  if (asset) {
+                    releaseDownloads += asset.downloadCount || 0;
+                  }
                 }
               }
-            }
-            totalReleaseDownloads += releaseDownloads;
+              totalReleaseDownloads += releaseDownloads;
             
-            // Latest release is the first one in the list
-            if (release && release === releases[0]) {
-              latestReleaseDownloads = releaseDownloads;
-              latestRelease = release.tagName;
-            }
+              // Latest release is the first one in the list
+              if (release && release === releases[0]) {
+                latestReleaseDownloads = releaseDownloads;
+                latestRelease = release.tagName;
+              }
             
-            // Add to download range with proper date format for charts
-            if (release?.publishedAt) {
-              downloadRange.push({
-                day: release.publishedAt,
-                downloads: releaseDownloads,
-                tagName: release.tagName
-              });
+              // Add to download range with proper date format for charts
+              if (release?.publishedAt) {
+                downloadsRange.push({
+                  day: release.publishedAt,
+                  downloads: releaseDownloads,
+                  tagName: release.tagName
+                });
+              }
             }
           }
+        } catch (error) {
+          console.warn(`Could not fetch GitHub GraphQL releases data for ${repository}:`, error);
         }
-      } catch (error) {
-        console.warn(`Could not fetch GitHub GraphQL releases data for ${repository}:`, error);
       }
       
       // Fallback to REST API if GraphQL fails or for additional data
       let restData: any = null;
+      let restError: unknown = null;
       
       try {
         const { data: repoData } = await octokit.repos.get({
@@ -258,6 +276,7 @@ interface GraphQLReleasesResponse {
         });
         restData = repoData;
       } catch (error) {
+        restError = error;
         console.warn(`Could not fetch GitHub REST data for ${repository}:`, error);
       }
       
@@ -265,7 +284,10 @@ interface GraphQLReleasesResponse {
       const finalData = graphqlData || restData;
       
       if (!finalData) {
-        throw new Error('Could not fetch repository data from either GraphQL or REST API');
+        if (errorKindOf(restError) === 'not-found') {
+          throw new HttpError(`Not found: repository ${repository}`, { kind: 'not-found', status: 404 });
+        }
+        throw new HttpError(`Could not fetch repository data from either GraphQL or REST API: ${describeError(restError)}`, { kind: errorKindOf(restError) });
       }
       
       // Get traffic statistics using REST API (requires authentication)
@@ -273,7 +295,13 @@ interface GraphQLReleasesResponse {
       let uniqueVisitors = 0;
       let clonesCount = 0;
       
-      if (token) {
+      // GitHub only serves the last 14 days of traffic, so each run merges them into the stored history
+      const trafficByDay = new Map<string, GitHubTrafficDay>();
+      for (const entry of getPreviousResult<GitHubMetrics>(PlatformSettings.name, repository)?.metrics?.trafficRange || []) {
+        trafficByDay.set(entry.day, entry);
+      }
+      
+      if (token && options.traffic !== false) {
         try {
           // Get views data
           const { data: viewsData } = await octokit.repos.getViews({
@@ -284,6 +312,11 @@ interface GraphQLReleasesResponse {
           if (viewsData) {
             viewsCount = viewsData.count || 0;
             uniqueVisitors = viewsData.uniques || 0;
+            for (const view of viewsData.views || []) {
+              const day = trafficDay(trafficByDay, view.timestamp);
+              day.views = view.count;
+              day.uniqueViews = view.uniques;
+            }
           }
           
           // Get clones data
@@ -294,32 +327,37 @@ interface GraphQLReleasesResponse {
           
           if (clonesData) {
             clonesCount = clonesData.count || 0;
+            for (const clone of clonesData.clones || []) {
+              const day = trafficDay(trafficByDay, clone.timestamp);
+              day.clones = clone.count;
+              day.uniqueClones = clone.uniques;
+            }
           }
         } catch (error) {
           console.warn(`Could not fetch GitHub traffic data for ${repository}:`, error);
         }
       }
       
+      const trafficRange = Array.from(trafficByDay.values()).sort((a, b) => a.day.localeCompare(b.day));
+      
       // Calculate repository age
       let repositoryAge = 0;
       if (finalData.createdAt) {
         const created = new Date(finalData.createdAt);
-        const now = new Date();
-        repositoryAge = Math.floor((now.getTime() - created.getTime()) / (1000 * 60 * 60 * 24)); // days
+        repositoryAge = Math.floor((now().getTime() - created.getTime()) / (1000 * 60 * 60 * 24)); // days
       }
       
       // Calculate activity metrics
       let lastActivity = 0;
       if (finalData.pushedAt) {
         const pushed = new Date(finalData.pushedAt);
-        const now = new Date();
-        lastActivity = Math.floor((now.getTime() - pushed.getTime()) / (1000 * 60 * 60 * 24)); // days
+        lastActivity = Math.floor((now().getTime() - pushed.getTime()) / (1000 * 60 * 60 * 24)); // days
       }
       
       return {
         platform: PlatformSettings.name,
         name: repository,
-        timestamp: new Date().toISOString(),
+        timestamp: now().toISOString(),
         metrics: {
           stars: finalData.stargazerCount || finalData.stargazers_count || 0,
           forks: finalData.forkCount || finalData.forks_count || 0,
@@ -342,25 +380,32 @@ interface GraphQLReleasesResponse {
           license: finalData.licenseInfo?.name || finalData.license?.name || null,
           defaultBranch: finalData.defaultBranchRef?.name || finalData.default_branch || null,
           downloadsTotal: totalReleaseDownloads || 0,
-          downloadRange,
+          downloadsRange,
+          viewsTotal: trafficRange.reduce((sum, day) => sum + day.views, 0),
+          clonesTotal: trafficRange.reduce((sum, day) => sum + day.clones, 0),
+          trafficSince: trafficRange[0]?.day || null,
+          trafficRange,
         }
       };
     } catch (error) {
+      // The stored traffic history cannot be fetched again, so it outlives failed runs
+      const retained = retainPreviousMetrics<GitHubMetrics>(PlatformSettings.name, repository, ['trafficRange', 'viewsTotal', 'clonesTotal', 'trafficSince']);
       return {
         platform: PlatformSettings.name,
         name: repository,
-        timestamp: new Date().toISOString(),
-        metrics: {},
-        error: error instanceof Error ? error.message : String(error)
+        timestamp: now().toISOString(),
+        error: describeError(error),
+        errorKind: errorKindOf(error),
+        ...(retained ? { retained } : {}),
       };
     }
   }
   
-  export async function collectGithubBatch(repositories: string[]): Promise<MetricResult[]> {
+  export async function collectGithubBatch(sources: SourceConfig[]): Promise<MetricResult[]> {
     const results: Promise<MetricResult>[] = [];
     
-    for (const repo of repositories) {
-      results.push(collectGithub(repo));
+    for (const source of sources) {
+      results.push(collectGithub(source.name, source.options));
     }
     
     return Promise.all(results);
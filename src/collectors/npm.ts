@@ -2,7 +2,10 @@
  * NPM package statistics collector with enhanced metrics
  */
 
-import type { MetricResult } from './types.js';
+import type { MetricResult, NpmMetrics, NpmVersionDownloads, NpmVersionRelease, SourceConfig } from './types.js';
+import { describeError, errorKindOf, fetchJson } from '../clients/http.js';
+import { now } from '../clock.js';
+import { getPreviousResult, isFullRefresh } from '../previous.js';
 
 const PlatformSettings = {
   name: 'NPM',
@@ -33,6 +36,7 @@ interface NpmDownloadStats {
 const BASE_URL = 'https://api.npmjs.org/downloads/range';
 const CHUNK_DAYS = 540; // 18 months max per request
 const START_DATE = new Date('2015-01-10'); // Earliest NPM data
+const REFETCH_DAYS = 7; // Recent days npm may still revise
 
 function formatDate(date: Date): string {
   return date.toISOString().split('T')[0];
@@ -46,19 +50,29 @@ function addDays(date: Date, days: number): Date {
 
 async function fetchChunk(start: Date, end: Date, packageName: string): Promise<{ day: string; downloads: number }[]> {
   const url = `${BASE_URL}/${formatDate(start)}:${formatDate(end)}/${packageName}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`Failed to fetch data: ${res.status} ${res.statusText}`);
-  }
-  const json = await res.json() as any;
+  const json = await fetchJson<{ downloads: { day: string; downloads: number }[] }>(url);
   return json.downloads;
 }
 
+/**
+ * Daily downloads since the package was created. Days already stored by the previous run are reused,
+ * except for a trailing window that is fetched again because npm revises recent counts.
+ */
 async function getFullDownloadHistory(packageName: string, startDate: Date): Promise<{ day: string; downloads: number }[]> {
-  const today = new Date();
+  const today = now();
   let currentStart = new Date(startDate);
   let allDownloads: { day: string; downloads: number }[] = [];
 
+  const cached = getCachedDownloads(packageName, startDate);
+  if (cached.length > 0) {
+    const refetchFrom = addDays(new Date(cached[cached.length - 1].day), -(REFETCH_DAYS - 1));
+    if (refetchFrom > currentStart) {
+      allDownloads = cached.filter(entry => entry.day < formatDate(refetchFrom));
+      currentStart = refetchFrom;
+      console.log(`Reusing ${allDownloads.length} cached days for ${packageName}`);
+    }
+  }
+
   while (currentStart < today) {
     const currentEnd = addDays(currentStart, CHUNK_DAYS - 1);
     const end = currentEnd > today ? today : currentEnd;
@@ -74,13 +88,54 @@ async function getFullDownloadHistory(packageName: string, startDate: Date): Pro
   return Array.from(new Set(allDownloads));
 }
 
+// The previous run's daily downloads, if they cover the package's whole history
+function getCachedDownloads(packageName: string, startDate: Date): { day: string; downloads: number }[] {
+  if (isFullRefresh()) return [];
+  const range = getPreviousResult<NpmMetrics>(PlatformSettings.name, packageName)?.metrics?.downloadsRange;
+  if (!Array.isArray(range) || range.length === 0) return [];
+
+  const days = range
+    .filter(entry => typeof entry?.day === 'string' && typeof entry?.downloads === 'number')
+    .map(entry => ({ day: entry.day.slice(0, 10), downloads: entry.downloads }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+  const earliest = startDate > START_DATE ? startDate : START_DATE;
+  if (days.length === 0 || days[0].day > formatDate(earliest)) return [];
+  return days;
+}
+
+/**
+ * Last week's downloads per version, joined with each version's publish time from the registry document.
+ * Versions nobody downloaded are left out, since old packages can have hundreds of them;
+ * `getVersionReleases` keeps the publish times of all of them.
+ */
+async function getVersionDownloads(packageName: string, time: Record<string, string> = {}): Promise<NpmVersionDownloads[]> {
+  // Scoped names keep their @ but need the slash encoded
+  const url = `https://api.npmjs.org/versions/${packageName.replace('/', '%2F')}/last-week`;
+  const json = await fetchJson<{ package: string; downloads: Record<string, number> }>(url);
+  return Object.entries(json.downloads || {})
+    .filter(([, downloads]) => downloads > 0)
+    .map(([version, downloads]) => ({ day: time[version] || '', downloads, version }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Publish time of every version in the registry document, oldest first
+ */
+function getVersionReleases(packageData: NpmPackageInfo): NpmVersionRelease[] {
+  const time = packageData.time || {};
+  // `time` also holds `created` and `modified`, and keeps the times of unpublished versions
+  const versions = packageData.versions ? Object.keys(packageData.versions) : Object.keys(time).filter(key => key !== 'created' && key !== 'modified');
+  return versions
+    .filter(version => time[version])
+    .map(version => ({ day: time[version], version }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
 
-export async function collectNpm(packageName: string): Promise<MetricResult> {
+export async function collectNpm(packageName: string): Promise<MetricResult<NpmMetrics>> {
   try {
     // Get package info from npm registry
     const packageUrl = `https://registry.npmjs.org/${packageName}`;
-    const packageResponse = await fetch(packageUrl);
-    const packageData: NpmPackageInfo = await packageResponse.json() as NpmPackageInfo;
+    const packageData = await fetchJson<NpmPackageInfo>(packageUrl);
 
     // Get download statistics
     let downloadsMonthly
@@ -90,8 +145,7 @@ export async function collectNpm(packageName: string): Promise<MetricResult> {
     try {
       // Monthly downloads
       const monthlyUrl = `https://api.npmjs.org/downloads/point/last-month/${packageName}`;
-      const monthlyResponse = await fetch(monthlyUrl);
-      const monthlyData: NpmDownloadStats = await monthlyResponse.json() as NpmDownloadStats;
+      const monthlyData = await fetchJson<NpmDownloadStats>(monthlyUrl);
       downloadsMonthly = monthlyData.downloads || null;
     } catch (error) {
       console.warn(`Could not fetch NPM monthly downloads for ${packageName}:`, error);
@@ -100,8 +154,7 @@ export async function collectNpm(packageName: string): Promise<MetricResult> {
     try {
       // Weekly downloads
       const weeklyUrl = `https://api.npmjs.org/downloads/point/last-week/${packageName}`;
-      const weeklyResponse = await fetch(weeklyUrl);
-      const weeklyData: NpmDownloadStats = await weeklyResponse.json() as NpmDownloadStats;
+      const weeklyData = await fetchJson<NpmDownloadStats>(weeklyUrl);
       downloadsWeekly = weeklyData.downloads || null;
     } catch (error) {
       console.warn(`Could not fetch NPM weekly downloads for ${packageName}:`, error);
@@ -110,8 +163,7 @@ export async function collectNpm(packageName: string): Promise<MetricResult> {
     try {
       // Daily downloads
       const dailyUrl = `https://api.npmjs.org/downloads/point/last-day/${packageName}`;
-      const dailyResponse = await fetch(dailyUrl);
-      const dailyData: NpmDownloadStats = await dailyResponse.json() as NpmDownloadStats;
+      const dailyData = await fetchJson<NpmDownloadStats>(dailyUrl);
       downloadsDaily = dailyData.downloads || null;
     } catch (error) {
       console.warn(`Could not fetch NPM daily downloads for ${packageName}:`, error);
@@ -121,34 +173,45 @@ export async function collectNpm(packageName: string): Promise<MetricResult> {
 
     const downloadsTotal = downloadsRange.reduce((acc, curr) => acc + curr.downloads, 0)
 
+    const versionReleases = getVersionReleases(packageData)
+
+    let versionDownloads
+    try {
+      versionDownloads = await getVersionDownloads(packageName, packageData.time)
+    } catch (error) {
+      console.warn(`Could not fetch NPM version downloads for ${packageName}:`, error);
+    }
+
     return {
       platform: PlatformSettings.name,
       name: packageName,
-      timestamp: new Date().toISOString(),
+      timestamp: now().toISOString(),
       metrics: {
         downloadsTotal,
         downloadsMonthly,
         downloadsWeekly,
         downloadsDaily,
         downloadsRange,
+        ...(versionDownloads ? { versionDownloads } : {}),
+        ...(versionReleases.length > 0 ? { versionReleases } : {}),
       }
     };
   } catch (error) {
     return {
       platform: PlatformSettings.name,
       name: packageName,
-      timestamp: new Date().toISOString(),
-      metrics: {},
-      error: error instanceof Error ? error.message : String(error)
+      timestamp: now().toISOString(),
+      error: describeError(error),
+      errorKind: errorKindOf(error),
     };
   }
 }
 
 
-export async function collectNpmBatch(packageNames: string[]): Promise<MetricResult[]> {
+export async function collectNpmBatch(sources: SourceConfig[]): Promise<MetricResult[]> {
   const resultPromises: Promise<MetricResult>[] = []
-  for (const packageName of packageNames) {
-    resultPromises.push(collectNpm(packageName))
+  for (const source of sources) {
+    resultPromises.push(collectNpm(source.name))
   }
   return Promise.all(resultPromises)
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { configureHttp } from '../clients/http.js';
+import { setClock } from '../clock.js';
+import { setPreviousResults } from '../previous.js';
+import { collectPowerShell, dailyDownloads, downloadsOver, mergeSnapshots } from './powershell.js';
+import type { MetricResult, PowerShellDownloadsSnapshot, PowerShellMetrics } from './types.js';
+
+const MODULE = 'UsageStatisticsFixture'
+
+function snapshot(day: string, downloadsTotal: number, versions?: Record<string, number>): PowerShellDownloadsSnapshot {
+    return { day, downloadsTotal, ...(versions ? { versions } : {}) }
+}
+
+describe('PowerShell snapshot math', () => {
+    test('keeps one snapshot per day, the latest run winning', () => {
+        const merged = mergeSnapshots([snapshot('2025-06-01', 100), snapshot('2025-06-02', 110)], snapshot('2025-06-02', 120))
+        expect(merged).toEqual([snapshot('2025-06-01', 100), snapshot('2025-06-02', 120)])
+    })
+
+    test('drops per-version counts older than 31 days but keeps the totals', () => {
+        const merged = mergeSnapshots(
+            [snapshot('2025-05-01', 100, { '1.0.0': 100 }), snapshot('2025-06-01', 200, { '1.0.0': 200 })],
+            snapshot('2025-06-10', 250, { '1.0.0': 250 }),
+        )
+        expect(merged[0]).toEqual(snapshot('2025-05-01', 100))
+        expect(merged[1].versions).toEqual({ '1.0.0': 200 })
+    })
+
+    test('drops the snapshots older than the newest one at least 31 days old', () => {
+        const stored = [snapshot('2025-04-01', 50), snapshot('2025-05-01', 100), snapshot('2025-05-10', 150), snapshot('2025-06-01', 200)]
+        expect(mergeSnapshots(stored, snapshot('2025-06-10', 250)).map(entry => entry.day)).toEqual(['2025-05-10', '2025-06-01', '2025-06-10'])
+        // Until a snapshot is old enough, every snapshot is kept
+        expect(mergeSnapshots(stored.slice(3), snapshot('2025-06-10', 250)).map(entry => entry.day)).toEqual(['2025-06-01', '2025-06-10'])
+    })
+
+    test('measures downloads from the latest snapshot old enough', () => {
+        const snapshots = [snapshot('2025-06-02', 100), snapshot('2025-06-08', 170), snapshot('2025-06-09', 185)]
+        expect(downloadsOver(snapshots, 1, entry => entry.downloadsTotal)).toBe(15)
+        expect(downloadsOver(snapshots, 7, entry => entry.downloadsTotal)).toBe(85)
+        expect(downloadsOver(snapshots, 30, entry => entry.downloadsTotal)).toBeNull()
+    })
+
+    test('scales the difference down when runs are further apart than the window', () => {
+        const snapshots = [snapshot('2025-06-01', 100), snapshot('2025-06-15', 240)]
+        expect(downloadsOver(snapshots, 7, entry => entry.downloadsTotal)).toBe(70)
+        expect(downloadsOver(snapshots, 1, entry => entry.downloadsTotal)).toBe(10)
+    })
+
+    test('counts a version missing from the base snapshot from zero', () => {
+        const snapshots = [snapshot('2025-06-01', 100, { '1.0.0': 100 }), snapshot('2025-06-08', 150, { '1.0.0': 120, '1.1.0': 30 })]
+        expect(downloadsOver(snapshots, 7, entry => entry.versions?.['1.1.0'])).toBe(30)
+        // Without per-version counts in the base there is nothing to compare with
+        expect(downloadsOver([snapshot('2025-06-01', 100), snapshots[1]], 7, entry => entry.versions?.['1.1.0'])).toBeNull()
+    })
+
+    test('spreads each difference evenly over the days between runs', () => {
+        expect(dailyDownloads([snapshot('2025-06-01', 100), snapshot('2025-06-04', 130), snapshot('2025-06-05', 125)])).toEqual([
+            { day: '2025-06-02', downloads: 10 },
+            { day: '2025-06-03', downloads: 10 },
+            { day: '2025-06-04', downloads: 10 },
+            { day: '2025-06-05', downloads: 0 },
+        ])
+    })
+
+    test('keeps the previous daily downloads from before the first snapshot', () => {
+        const previous = [{ day: '2025-05-31', downloads: 7 }, { day: '2025-06-01', downloads: 8 }, { day: '2025-06-02', downloads: 99 }]
+        expect(dailyDownloads([snapshot('2025-06-01', 100), snapshot('2025-06-02', 110)], previous)).toEqual([
+            { day: '2025-05-31', downloads: 7 },
+            { day: '2025-06-01', downloads: 8 },
+            { day: '2025-06-02', downloads: 10 },
+        ])
+    })
+})
+
+// What the fake gallery serves: null for an outage, otherwise the cumulative downloads of each version
+let gallery: Record<string, number> | null
+
+function galleryEntry(version: string, downloads: number, published: string, latest: boolean) {
+    return `<entry>
+    <id>${MODULE}/${version}</id>
+    <m:properties>
+      <d:Id>${MODULE}</d:Id>
+      <d:Version>${version}</d:Version>
+      <d:NormalizedVersion>${version}</d:NormalizedVersion>
+      <d:Authors>Example</d:Authors>
+      <d:Description>Fixture module</d:Description>
+      <d:DownloadCount m:type="Edm.Int32">0</d:DownloadCount>
+      <d:VersionDownloadCount m:type="Edm.Int32">${downloads}</d:VersionDownloadCount>
+      <d:Created m:type="Edm.DateTime">${published}</d:Created>
+      <d:Published m:type="Edm.DateTime">${published}</d:Published>
+      <d:LastUpdated m:type="Edm.DateTime">${published}</d:LastUpdated>
+      <d:IsLatestVersion m:type="Edm.Boolean">${latest}</d:IsLatestVersion>
+      <d:IsPrerelease m:type="Edm.Boolean">false</d:IsPrerelease>
+      <d:PackageSize m:type="Edm.Int64">1024</d:PackageSize>
+      <d:CompanyName>Example</d:CompanyName>
+      <d:Owners>example</d:Owners>
+    </m:properties>
+  </entry>`
+}
+
+async function fakeGallery() {
+    if (!gallery) return new Response('Service Unavailable', { status: 503 })
+    const versions = Object.entries(gallery)
+    const entries = versions.map(([version, downloads], index) =>
+        galleryEntry(version, downloads, `2025-0${index + 1}-01T00:00:00`, index === versions.length - 1))
+    return new Response(`<?xml version="1.0" encoding="utf-8"?><feed>${entries.join('')}</feed>`)
+}
+
+// One scheduled run: the previous run's results go through stats.json, then the module is collected
+async function run(today: string, previous: MetricResult<PowerShellMetrics>[]) {
+    setClock(new Date(`${today}T12:00:00Z`))
+    setPreviousResults(JSON.parse(JSON.stringify(previous)))
+    return collectPowerShell(MODULE)
+}
+
+describe('PowerShell download snapshots', () => {
+    const realFetch = globalThis.fetch
+
+    beforeAll(() => {
+        globalThis.fetch = fakeGallery as unknown as typeof fetch
+        configureHttp({ retries: 0 })
+    })
+
+    afterAll(() => {
+        globalThis.fetch = realFetch
+        configureHttp({ retries: 3 })
+        setClock(undefined)
+        setPreviousResults([])
+    })
+
+    test('keeps the snapshots through failed runs until the next successful one', async () => {
+        gallery = { '1.0.0': 100, '1.1.0': 50 }
+        const first = await run('2025-06-01', [])
+        expect(first.metrics?.downloadsTotal).toBe(150)
+        expect(first.metrics?.downloadsWeekly).toBeNull()
+
+        gallery = null
+        const failed = await run('2025-06-05', [first])
+        expect(failed.error).toBeDefined()
+        expect(failed.retained?.downloadsSnapshots).toEqual(first.metrics!.downloadsSnapshots)
+
+        // A second failure in a row still passes the snapshots on
+        const failedAgain = await run('2025-06-06', [failed])
+        expect(failedAgain.retained?.downloadsSnapshots).toHaveLength(1)
+
+        gallery = { '1.0.0': 130, '1.1.0': 90 }
+        const recovered = await run('2025-06-08', [failedAgain])
+        expect(recovered.error).toBeUndefined()
+        expect(recovered.metrics?.downloadsSnapshots.map(entry => entry.day)).toEqual(['2025-06-01', '2025-06-08'])
+        expect(recovered.metrics?.downloadsWeekly).toBe(70)
+        expect(recovered.metrics?.versionDownloadsWeekly).toEqual({ '1.0.0': 30, '1.1.0': 40 })
+        expect(recovered.metrics?.dailyDownloadsRange).toHaveLength(7)
+    })
+
+    test('keeps the daily downloads of the snapshots it drops', async () => {
+        gallery = { '1.0.0': 100, '1.1.0': 0 }
+        const first = await run('2025-06-01', [])
+        gallery = { '1.0.0': 120, '1.1.0': 50 }
+        const second = await run('2025-06-08', [first])
+        gallery = { '1.0.0': 150, '1.1.0': 350 }
+        const third = await run('2025-07-10', [second])
+
+        expect(third.metrics?.downloadsSnapshots.map(entry => entry.day)).toEqual(['2025-06-08', '2025-07-10'])
+        expect(third.metrics?.dailyDownloadsRange).toHaveLength(39)
+        expect(third.metrics?.dailyDownloadsRange[0]).toEqual({ day: '2025-06-02', downloads: 10 })
+    })
+
+    test('a module that never succeeded retains nothing', async () => {
+        gallery = null
+        const failed = await run('2025-06-01', [])
+        expect(failed.error).toBeDefined()
+        expect(failed.retained).toBeUndefined()
+    })
+})
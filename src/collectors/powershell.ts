@@ -2,14 +2,19 @@
  * PowerShell Gallery module statistics collector with enhanced metrics
  */
 
-import type { MetricResult } from './types.js';
+import type { DailyDownloads, MetricResult, PowerShellDownloadsSnapshot, PowerShellMetrics, PowerShellVersionDownloads, SourceConfig, SourceOptions } from './types.js';
 import { XMLParser } from 'fast-xml-parser';
+import { describeError, errorKindOf, fetchText, HttpError } from '../clients/http.js';
+import { now } from '../clock.js';
+import { getPreviousResult, retainPreviousMetrics } from '../previous.js';
 
 const PlatformSettings = {
   name: 'PowerShell',
 }
 
 const BASE_URL = 'https://www.powershellgallery.com/api/v2/';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERSION_SNAPSHOT_DAYS = 31; // Snapshots and per-version counts are only kept as long as the windows below need them
 const parser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: '',
@@ -213,8 +218,7 @@ function parsePowerShellGalleryEntry(entry: Entry): ParsedModuleEntry {
  */
 export async function findPackagesById(id: string) {
   const url = `${BASE_URL}FindPackagesById()?id='${encodeURIComponent(id)}'`;
-  const res = await fetch(url);
-  const xml = await res.text();
+  const xml = await fetchText(url);
   const json = parser.parse(xml) as PowerShellGalleryEntryArray;
   return json.feed.entry ?? [];
 }
@@ -225,8 +229,7 @@ export async function findPackagesById(id: string) {
  */
 export async function getPackageVersionInfo(id: string, version: string) {
   const url = `${BASE_URL}Packages(Id='${encodeURIComponent(id)}',Version='${encodeURIComponent(version)}')`;
-  const res = await fetch(url);
-  const xml = await res.text();
+  const xml = await fetchText(url);
   const json = parser.parse(xml) as PowerShellGalleryEntry;
   return json.entry
 }
@@ -239,8 +242,7 @@ export async function searchPackages(searchTerm: string, includePrerelease = fal
   const url = `${BASE_URL}Search()?searchTerm='${encodeURIComponent(
     searchTerm
   )}'&includePrerelease=${includePrerelease.toString()}`;
-  const res = await fetch(url);
-  const xml = await res.text();
+  const xml = await fetchText(url);
   const json = parser.parse(xml);
   return json.feed?.entry ?? [];
 }
@@ -258,18 +260,70 @@ export async function getTotalDownloadCount(id: string): Promise<number> {
   }, 0);
 }
 
-export async function collectPowerShell(moduleName: string): Promise<MetricResult> {
+function daysBetween(from: string, to: string) {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+// Merge this run's counts into the stored snapshots, one per day, dropping snapshots older than the newest
+// one at least VERSION_SNAPSHOT_DAYS old, and per-version counts older than that
+export function mergeSnapshots(stored: PowerShellDownloadsSnapshot[], current: PowerShellDownloadsSnapshot): PowerShellDownloadsSnapshot[] {
+  const byDay = new Map(stored.map(snapshot => [snapshot.day, snapshot]));
+  byDay.set(current.day, current);
+  const snapshots = Array.from(byDay.values()).sort((a, b) => a.day.localeCompare(b.day));
+  const oldest = snapshots.map(snapshot => daysBetween(snapshot.day, current.day) >= VERSION_SNAPSHOT_DAYS).lastIndexOf(true);
+  return snapshots
+    .slice(Math.max(0, oldest))
+    .map(snapshot => daysBetween(snapshot.day, current.day) > VERSION_SNAPSHOT_DAYS
+      ? { day: snapshot.day, downloadsTotal: snapshot.downloadsTotal }
+      : snapshot);
+}
+
+/**
+ * Downloads over the last `days` days, from the latest snapshot at least that old.
+ * When runs are further apart than the window, the difference is scaled down to it.
+ * @returns null until there is a snapshot old enough
+ */
+export function downloadsOver(snapshots: PowerShellDownloadsSnapshot[], days: number, count: (snapshot: PowerShellDownloadsSnapshot) => number | undefined): number | null {
+  const latest = snapshots[snapshots.length - 1];
+  const base = snapshots.filter(snapshot => daysBetween(snapshot.day, latest.day) >= days).pop();
+  if (!base) return null;
+  const baseCount = count(base);
+  if (baseCount === undefined && base.versions === undefined) return null;
+  const gap = daysBetween(base.day, latest.day);
+  return Math.max(0, Math.round(((count(latest) ?? 0) - (baseCount ?? 0)) * days / gap));
+}
+
+// Daily downloads between consecutive snapshots, spread evenly over the days in between, after the
+// previous run's daily downloads up to the first snapshot (whose own snapshots have since been dropped)
+export function dailyDownloads(snapshots: PowerShellDownloadsSnapshot[], previous: DailyDownloads[] = []): DailyDownloads[] {
+  const range = previous.filter(entry => snapshots.length > 0 && entry.day <= snapshots[0].day);
+  for (let i = 1; i < snapshots.length; i++) {
+    const gap = daysBetween(snapshots[i - 1].day, snapshots[i].day);
+    const perDay = Math.max(0, snapshots[i].downloadsTotal - snapshots[i - 1].downloadsTotal) / gap;
+    for (let offset = gap - 1; offset >= 0; offset--) {
+      const day = new Date(new Date(snapshots[i].day).getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+      range.push({ day, downloads: Math.round(perDay) });
+    }
+  }
+  return range;
+}
+
+export async function collectPowerShell(moduleName: string, options: SourceOptions = {}): Promise<MetricResult<PowerShellMetrics>> {
   try {
     // Get all versions of the package
     const allVersions = await findPackagesById(moduleName);
     if (!allVersions || allVersions.length === 0) {
-      throw new Error(`Module ${moduleName} not found`);
+      throw new HttpError(`Not found: module ${moduleName} is not on the PowerShell Gallery`, { kind: 'not-found' });
     }
 
     const versions: ParsedModuleEntry[] = []
 
     for (const version of allVersions) {
       const parsedVersion = parsePowerShellGalleryEntry(version)
+      // Prerelease versions are counted unless the source opts out
+      if (options.prerelease === false && parsedVersion.isPrerelease) {
+        continue
+      }
       versions.push(parsedVersion)
     }
     
@@ -278,7 +332,7 @@ export async function collectPowerShell(moduleName: string): Promise<MetricResul
 
     let downloadsTotal = 0;
     let latestVersionDownloads = 0;
-    let downloadRange: Array<{day: string, downloads: number, version: string}> = [];
+    const downloadsRange: PowerShellVersionDownloads[] = [];
     let latestVersion = '';
     let latestVersionDate = '';
 
@@ -310,19 +364,42 @@ export async function collectPowerShell(moduleName: string): Promise<MetricResul
       }
 
       // Add to download range for charts
-      downloadRange.push(rangeEntry);
+      downloadsRange.push(rangeEntry);
     }
 
     // Get latest version metadata
     const latestModuleData = sortedVersions[0];
 
-    const result: MetricResult = {
+    // Snapshots are kept even on a full refresh: past counts cannot be fetched again
+    const versionCounts = Object.fromEntries(downloadsRange.map(entry => [entry.version, entry.downloads]));
+    const previous = getPreviousResult<PowerShellMetrics>(PlatformSettings.name, moduleName)?.metrics;
+    const snapshots = mergeSnapshots(
+      previous?.downloadsSnapshots || [],
+      { day: now().toISOString().slice(0, 10), downloadsTotal, versions: versionCounts },
+    );
+    const versionDownloadsDaily: Record<string, number> = {};
+    const versionDownloadsWeekly: Record<string, number> = {};
+    for (const version of Object.keys(versionCounts)) {
+      const daily = downloadsOver(snapshots, 1, snapshot => snapshot.versions?.[version]);
+      const weekly = downloadsOver(snapshots, 7, snapshot => snapshot.versions?.[version]);
+      if (daily !== null) versionDownloadsDaily[version] = daily;
+      if (weekly !== null) versionDownloadsWeekly[version] = weekly;
+    }
+
+    const result: MetricResult<PowerShellMetrics> = {
       platform: PlatformSettings.name,
       name: moduleName,
-      timestamp: new Date().toISOString(),
+      timestamp: now().toISOString(),
       metrics: {
         downloadsTotal,
-        downloadsRange: downloadRange,
+        downloadsMonthly: downloadsOver(snapshots, 30, snapshot => snapshot.downloadsTotal),
+        downloadsWeekly: downloadsOver(snapshots, 7, snapshot => snapshot.downloadsTotal),
+        downloadsDaily: downloadsOver(snapshots, 1, snapshot => snapshot.downloadsTotal),
+        downloadsRange,
+        dailyDownloadsRange: dailyDownloads(snapshots, previous?.dailyDownloadsRange),
+        downloadsSnapshots: snapshots,
+        versionDownloadsDaily,
+        versionDownloadsWeekly,
         latestVersionDownloads,
         latestVersion,
         latestVersionDate,
@@ -343,20 +420,24 @@ export async function collectPowerShell(moduleName: string): Promise<MetricResul
 
   } catch (error) {
     console.warn('Error collecting PowerShell module:', error);
+    // Past cumulative counts cannot be fetched again, so the snapshots and the daily downloads outlive failed runs
+    const retained = retainPreviousMetrics<PowerShellMetrics>(PlatformSettings.name, moduleName, ['downloadsSnapshots', 'dailyDownloadsRange']);
     return {
       platform: PlatformSettings.name,
       name: moduleName,
-      timestamp: new Date().toISOString(),
-      error: error instanceof Error ? error.message : String(error),
+      timestamp: now().toISOString(),
+      error: describeError(error),
+      errorKind: errorKindOf(error),
+      ...(retained ? { retained } : {}),
     };
   }
 }
 
-export async function collectPowerShellBatch(moduleNames: string[]): Promise<MetricResult[]> {
+export async function collectPowerShellBatch(sources: SourceConfig[]): Promise<MetricResult[]> {
   const resultPromises: Promise<MetricResult>[] = []
 
-  for (const moduleName of moduleNames) {
-    resultPromises.push(collectPowerShell(moduleName))
+  for (const source of sources) {
+    resultPromises.push(collectPowerShell(source.name, source.options))
   }
   
   return Promise.all(resultPromises)
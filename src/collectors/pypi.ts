@@ -2,7 +2,9 @@
  * PyPI package statistics collector using external PyPI Stats API
  */
 
-import type { MetricResult } from './types.js';
+import type { MetricResult, PypiMetrics, PypiSeriesPoint, PythonVersionGrouping, SourceConfig, SourceOptions } from './types.js';
+import { describeError, errorKindOf, fetchJson } from '../clients/http.js';
+import { now } from '../clock.js';
 
 const PlatformSettings = {
   name: 'PyPI',
@@ -40,15 +42,117 @@ function normalizePackageName(name: string) {
   return name.replace(/[._]/g, '-').toLowerCase()
 }
 
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(url)
-  if (!res.ok) throw new Error(`Request failed ${res.status}: ${url}`)
-  return res.json() as Promise<T>
+export interface PypiOptions {
+  /** Count downloads from PyPI mirrors in the overall series */
+  mirrors: boolean;
+  /** Keep downloads whose Python version or system is unknown as an "unknown" bucket instead of dropping them */
+  keepUnknown: boolean;
+  /** Break Python versions down by minor version, or also by whether the minor version is still supported */
+  pythonVersions: PythonVersionGrouping;
 }
 
-export async function collectPypi(packageName: string): Promise<MetricResult> {
+const PYTHON_VERSION_GROUPINGS: PythonVersionGrouping[] = ['minor', 'support']
+
+// End of life of each Python minor version (https://devguide.python.org/versions/)
+const PYTHON_END_OF_LIFE: Record<string, string> = {
+  '2.7': '2020-01-01',
+  '3.5': '2020-09-30',
+  '3.6': '2021-12-23',
+  '3.7': '2023-06-27',
+  '3.8': '2024-10-07',
+  '3.9': '2025-10-31',
+  '3.10': '2026-10-31',
+  '3.11': '2027-10-31',
+  '3.12': '2028-10-31',
+  '3.13': '2029-10-31',
+  '3.14': '2030-10-31',
+}
+
+const SUPPORTED = 'Supported'
+const END_OF_LIFE = 'End of life'
+const UNKNOWN_CATEGORY = 'unknown'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let defaults: PypiOptions = { mirrors: false, keepUnknown: false, pythonVersions: 'minor' }
+
+export function parsePythonVersionGrouping(input: string): PythonVersionGrouping {
+  const grouping = (input.trim().toLowerCase() || 'minor') as PythonVersionGrouping
+  if (!PYTHON_VERSION_GROUPINGS.includes(grouping)) {
+    throw new Error(`Invalid Python version grouping "${input}" (expected ${PYTHON_VERSION_GROUPINGS.join(', ')})`)
+  }
+  return grouping
+}
+
+/**
+ * Set the options every PyPI source uses unless its own options override them; omitted options keep their current values
+ */
+export function configurePypi(next: Partial<PypiOptions>) {
+  defaults = { ...defaults, ...next }
+}
+
+function resolveOptions(options: SourceOptions): PypiOptions {
+  return {
+    mirrors: typeof options.mirrors === 'boolean' ? options.mirrors : defaults.mirrors,
+    keepUnknown: typeof options.keepUnknown === 'boolean' ? options.keepUnknown : defaults.keepUnknown,
+    pythonVersions: typeof options.pythonVersions === 'string' ? parsePythonVersionGrouping(options.pythonVersions) : defaults.pythonVersions,
+  }
+}
+
+// pypistats reports downloads it cannot attribute as "null" or "unknown"
+function isUnknownCategory(category: string | null | undefined) {
+  return !category || /^(unknown|null|none)$/i.test(category)
+}
+
+/**
+ * Drop downloads of unknown categories, or merge them into one "unknown" bucket
+ */
+function handleUnknown(points: PypiSeriesPoint[], keepUnknown: boolean): PypiSeriesPoint[] {
+  if (!keepUnknown) return points.filter(p => !isUnknownCategory(p.category))
+  return points.map(p => isUnknownCategory(p.category) ? { ...p, category: UNKNOWN_CATEGORY } : p)
+}
+
+/**
+ * Downloads over the last `days` days of a daily series, counting back from its latest day
+ */
+function downloadsOverLastDays(points: PypiSeriesPoint[], days: number): number | undefined {
+  const latest = points.reduce((max, p) => p.date.slice(0, 10) > max ? p.date.slice(0, 10) : max, '')
+  if (!latest) return undefined
+  const since = new Date(new Date(`${latest}T00:00:00Z`).getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10)
+  return points.filter(p => p.date.slice(0, 10) >= since).reduce((sum, p) => sum + p.downloads, 0)
+}
+
+/**
+ * Whether a Python version (such as 3.8, or a bare major such as 2) was still supported on a day.
+ * Versions older than the table are past their end of life and newer ones are supported.
+ */
+export function pythonSupportStatus(version: string, day: string) {
+  const endOfLife = PYTHON_END_OF_LIFE[version]
+  if (endOfLife) return day < endOfLife ? SUPPORTED : END_OF_LIFE
+  const [major, minor = 0] = version.split('.').map(Number)
+  if (major < 3 || (major === 3 && minor < 5)) return END_OF_LIFE
+  return SUPPORTED
+}
+
+/**
+ * Python minor version downloads summed per support status on each day, keeping the unknown bucket if there is one
+ */
+function groupBySupport(points: PypiSeriesPoint[]): PypiSeriesPoint[] {
+  const grouped = new Map<string, PypiSeriesPoint>()
+  for (const p of points) {
+    const category = p.category === UNKNOWN_CATEGORY ? UNKNOWN_CATEGORY : pythonSupportStatus(p.category, p.date)
+    const key = `${p.date}:${category}`
+    const existing = grouped.get(key)
+    if (existing) existing.downloads += p.downloads
+    else grouped.set(key, { date: p.date, category, downloads: p.downloads })
+  }
+  return Array.from(grouped.values())
+}
+
+export async function collectPypi(packageName: string, sourceOptions: SourceOptions = {}): Promise<MetricResult<PypiMetrics>> {
   const normalized = normalizePackageName(packageName)
   try {
+    const options = resolveOptions(sourceOptions)
+
     // Package metadata
     const packageDataPromise = fetchJson<PyPIPackageInfo>(`https://pypi.org/pypi/${normalized}/json`)
 
@@ -90,15 +194,51 @@ export async function collectPypi(packageName: string): Promise<MetricResult> {
 
     // All time-series and breakdowns are provided by the external API
 
-    const overallSeries = (overall.data || []).filter(p => p.category === 'without_mirrors')
+    const overallCategory = options.mirrors ? 'with_mirrors' : 'without_mirrors'
+    const overallSeries = (overall.data || []).filter(p => p.category === overallCategory)
+    // The summary and recent endpoints leave mirrors out, so with mirrors every count comes from the series
+    const counts = options.mirrors
+      ? {
+        downloadsTotal: overallSeries.reduce((sum, p) => sum + p.downloads, 0),
+        downloadsMonthly: downloadsOverLastDays(overallSeries, 30),
+        downloadsWeekly: downloadsOverLastDays(overallSeries, 7),
+        downloadsDaily: downloadsOverLastDays(overallSeries, 1),
+      }
+      : {
+        downloadsTotal: summary.totals?.overall,
+        downloadsMonthly: recent.data?.last_month,
+        downloadsWeekly: recent.data?.last_week,
+        downloadsDaily: recent.data?.last_day,
+      }
+
+    // Totals keyed by category, with unknown categories dropped or summed into one bucket
+    const breakdown = (totals: Record<string, number> | undefined, known: RegExp, prefix = '') => {
+      if (!totals) return null
+      const result: Record<string, number> = {}
+      for (const [k, v] of Object.entries(totals)) {
+        if (known.test(k) && !isUnknownCategory(k)) result[`${prefix}${k}`] = v
+        else if (options.keepUnknown) result[UNKNOWN_CATEGORY] = (result[UNKNOWN_CATEGORY] || 0) + v
+      }
+      return result
+    }
+    const systemBreakdown = breakdown(summary.totals?.system, /.*/)
+    const pythonVersionBreakdown = breakdown(summary.totals?.python_major, /^\d+$/, 'python')
+    const pythonMinorBreakdown = breakdown(summary.totals?.python_minor, /^\d+(?:\.\d+)?$/, 'python')
 
-    const systemBreakdown = summary.totals?.system || null
-    const pythonVersionBreakdown = summary.totals?.python_major
-      ? Object.fromEntries(Object.entries(summary.totals.python_major).filter(([k]) => /^\d+$/.test(k)).map(([k, v]) => [`python${k}`, v as number]))
-      : null
-    const pythonMinorBreakdown = summary.totals?.python_minor
-      ? Object.fromEntries(Object.entries(summary.totals.python_minor).filter(([k]) => /^\d+(?:\.\d+)?$/.test(k)).map(([k, v]) => [`python${k}`, v as number]))
-      : null
+    const pythonMinorSeries = handleUnknown(pythonMinor.data || [], options.keepUnknown)
+    let pythonSupportSeries: PypiSeriesPoint[] | undefined
+    let pythonSupportBreakdown: Record<string, number> | undefined
+    if (options.pythonVersions === 'support') {
+      pythonSupportSeries = groupBySupport(pythonMinorSeries)
+      // The breakdown reflects support status today, not on the day of each download
+      pythonSupportBreakdown = {}
+      const today = now().toISOString().slice(0, 10)
+      for (const [k, v] of Object.entries(pythonMinorBreakdown || {})) {
+        const status = k === UNKNOWN_CATEGORY ? UNKNOWN_CATEGORY : pythonSupportStatus(k.replace(/^python/, ''), today)
+        pythonSupportBreakdown[status] = (pythonSupportBreakdown[status] || 0) + v
+      }
+    }
+    const keepDataset = (label: string) => options.keepUnknown || !/unknown|null/i.test(label)
 
     // Derive popular system and installer from totals/series
     let popularSystem: string | undefined
@@ -137,12 +277,9 @@ export async function collectPypi(packageName: string): Promise<MetricResult> {
     return {
       platform: PlatformSettings.name,
       name: packageName,
-      timestamp: new Date().toISOString(),
+      timestamp: now().toISOString(),
       metrics: {
-        downloadsTotal: summary.totals?.overall,
-        downloadsMonthly: recent.data?.last_month,
-        downloadsWeekly: recent.data?.last_week,
-        downloadsDaily: recent.data?.last_day,
+        ...counts,
         version: packageData.info?.version,
         latestReleaseDate,
         description: packageData.info?.summary,
@@ -152,41 +289,45 @@ export async function collectPypi(packageName: string): Promise<MetricResult> {
         requiresPython: packageData.info?.requires_python,
         releases: Object.keys(packageData.releases || {}).length,
         downloadsRange: overallSeries.map(p => ({ day: p.date, downloads: p.downloads })),
+        includesMirrors: options.mirrors,
+        pythonVersions: options.pythonVersions,
         overallSeries,
-        pythonMajorSeries: (pythonMajor.data || []).filter(p => p.category?.toLowerCase?.() !== 'unknown'),
-        pythonMinorSeries: (pythonMinor.data || []).filter(p => p.category?.toLowerCase?.() !== 'unknown'),
-        systemSeries: system.data || [],
+        pythonMajorSeries: handleUnknown(pythonMajor.data || [], options.keepUnknown),
+        pythonMinorSeries,
+        systemSeries: handleUnknown(system.data || [], options.keepUnknown),
         installerSeries: installer.data || [],
         popularSystem,
         popularInstaller,
 
         // Server-prepared chart JSON (preferred for rendering)
-        overallChart,
-        pythonMajorChart: { ...pythonMajorChart, datasets: (pythonMajorChart.datasets || []).filter(ds => !/unknown/i.test(ds.label)) },
-        pythonMinorChart: { ...pythonMinorChart, datasets: (pythonMinorChart.datasets || []).filter(ds => !/unknown/i.test(ds.label)) },
-        systemChart,
+        // The overall chart has a line with mirrors and one without; only the chosen one is kept
+        overallChart: { ...overallChart, datasets: (overallChart.datasets || []).filter(ds => /without/i.test(ds.label) !== options.mirrors) },
+        pythonMajorChart: { ...pythonMajorChart, datasets: (pythonMajorChart.datasets || []).filter(ds => keepDataset(ds.label)) },
+        pythonMinorChart: { ...pythonMinorChart, datasets: (pythonMinorChart.datasets || []).filter(ds => keepDataset(ds.label)) },
+        systemChart: { ...systemChart, datasets: (systemChart.datasets || []).filter(ds => keepDataset(ds.label)) },
         installerChart,
         pythonVersionBreakdown,
         pythonMinorBreakdown,
         systemBreakdown,
+        ...(pythonSupportSeries ? { pythonSupportSeries, pythonSupportBreakdown } : {}),
       }
     };
   } catch (error) {
     return {
       platform: PlatformSettings.name,
       name: packageName,
-      timestamp: new Date().toISOString(),
-      metrics: {},
-      error: error instanceof Error ? error.message : String(error)
+      timestamp: now().toISOString(),
+      error: describeError(error),
+      errorKind: errorKindOf(error),
     };
   }
 }
 
-export async function collectPypiBatch(packageNames: string[]): Promise<MetricResult[]> {
+export async function collectPypiBatch(sources: SourceConfig[]): Promise<MetricResult[]> {
   const results: Promise<MetricResult>[] = []
 
-  for (const packageName of packageNames) {
-    results.push(collectPypi(packageName))
+  for (const source of sources) {
+    results.push(collectPypi(source.name, source.options))
   }
 
   return Promise.all(results)
@@ -2,28 +2,264 @@
  * Core types for the simplified usage statistics system
  */
 
-export interface MetricResult {
+export interface MetricResult<M extends object = Metrics> {
   platform: string;
   name: string;
+  displayName?: string;
+  group?: string;
+  /** A source to compare against, such as a competitor's package, kept out of our own totals */
+  benchmark?: boolean;
   timestamp: string;
-  metrics?: {
-    stars?: number;
-    forks?: number;
-    watchers?: number;
-    openIssues?: number;
-    totalReleaseDownloads?: number;
-    downloadsTotal?: number;
-    downloadsRange?: {
-      day: string;
-      downloads: number;
-    }[];
-  } & Record<string, any>;
+  /** Absent when the source failed */
+  metrics?: M;
+  /**
+   * Set when the source failed: the metrics of its last successful run that the upstream API cannot
+   * serve again (such as GitHub traffic older than 14 days), so the next successful run carries on from them
+   */
+  retained?: Partial<M>;
   error?: string;
+  errorKind?: ErrorKind;
 }
 
+/**
+ * Metrics of a result whose platform is not known statically (custom platforms, or any result read from a file).
+ * Narrow with `isPlatformResult` to read the fields of a built-in platform.
+ */
+export type Metrics = NpmMetrics | GitHubMetrics | PypiMetrics | PowerShellMetrics | CustomMetrics;
+
+/**
+ * Metrics of a custom platform: only the fields the shared summaries read are known
+ */
+export interface CustomMetrics {
+  downloadsTotal?: number;
+  downloadsRange?: DownloadsRangeEntry[];
+  [metric: string]: unknown;
+}
+
+/**
+ * Metrics of each built-in platform, keyed by platform name
+ */
+export interface PlatformMetrics {
+  NPM: NpmMetrics;
+  GitHub: GitHubMetrics;
+  PyPI: PypiMetrics;
+  PowerShell: PowerShellMetrics;
+}
+
+export function isPlatformResult<P extends keyof PlatformMetrics>(result: MetricResult, platform: P): result is MetricResult<PlatformMetrics[P]> {
+  return result.platform === platform;
+}
+
+/**
+ * Metrics keyed by name, for code that handles every platform alike (deltas, milestones, the leaderboard)
+ */
+export function metricValues(metrics: Metrics | undefined): Record<string, unknown> {
+  return (metrics ?? {}) as Record<string, unknown>;
+}
+
+export interface DailyDownloads {
+  day: string;
+  downloads: number;
+}
+
+/**
+ * An entry of any platform's `downloadsRange`: a day of downloads, or a release or version keyed by publish time
+ */
+export interface DownloadsRangeEntry extends DailyDownloads {
+  /** Set for GitHub releases */
+  tagName?: string;
+  /** Set for PowerShell versions */
+  version?: string;
+}
+
+/**
+ * Metrics stored for each platform. Every field is part of the stats file format (see schema/stats.schema.json):
+ * renaming or removing one needs a new schema version and a migration in src/stats.ts.
+ */
+export interface NpmMetrics {
+  downloadsTotal: number;
+  /** Null or absent when the point download API returned nothing */
+  downloadsMonthly?: number | null;
+  downloadsWeekly?: number | null;
+  downloadsDaily?: number | null;
+  /** Downloads per day since the package was created */
+  downloadsRange: DailyDownloads[];
+  /** Last week's downloads per version; absent when the versions endpoint failed */
+  versionDownloads?: NpmVersionDownloads[];
+  /** Every version the registry lists with its publish time, downloaded lately or not */
+  versionReleases?: NpmVersionRelease[];
+}
+
+export interface NpmVersionRelease {
+  /** Publish time of the version, from the registry document */
+  day: string;
+  version: string;
+}
+
+export interface NpmVersionDownloads extends DailyDownloads {
+  /** Publish time of the version, from the registry document; empty for versions it no longer lists */
+  day: string;
+  /** Downloads of the version over the last 7 days */
+  downloads: number;
+  version: string;
+}
+
+export interface GitHubReleaseDownloads extends DailyDownloads {
+  /** Publish time of the release */
+  day: string;
+  tagName: string;
+}
+
+/** One day of repository traffic, as kept in the stored history */
+export interface GitHubTrafficDay {
+  day: string;
+  views: number;
+  uniqueViews: number;
+  clones: number;
+  uniqueClones: number;
+}
+
+export interface GitHubMetrics {
+  stars: number;
+  forks: number;
+  watchers: number;
+  totalIssues: number;
+  openIssues: number;
+  closedIssues: number;
+  language: string | null;
+  size: number | null;
+  /** Days since the repository was created */
+  repositoryAge: number;
+  /** Days since the last push */
+  lastActivity: number;
+  releaseCount: number;
+  totalReleaseDownloads: number;
+  latestReleaseDownloads: number;
+  latestRelease: string | null;
+  /** Views and clones over GitHub's 14-day traffic window */
+  viewsCount: number;
+  uniqueVisitors: number;
+  clonesCount: number;
+  topics: number;
+  license: string | null;
+  defaultBranch: string | null;
+  downloadsTotal: number;
+  /** Asset downloads per release, keyed by publish time; empty when releases are skipped */
+  downloadsRange: GitHubReleaseDownloads[];
+  /** Views and clones over the whole stored traffic history */
+  viewsTotal: number;
+  clonesTotal: number;
+  trafficSince: string | null;
+  trafficRange: GitHubTrafficDay[];
+}
+
+export interface PypiSeriesPoint {
+  date: string;
+  category: string;
+  downloads: number;
+}
+
+export interface PypiChart {
+  package: string;
+  type: string;
+  chartType: string;
+  title: string;
+  labels: string[];
+  datasets: Array<{ label: string; data: number[] }>;
+}
+
+export interface PypiMetrics {
+  downloadsTotal: number;
+  downloadsMonthly?: number;
+  downloadsWeekly?: number;
+  downloadsDaily?: number;
+  version?: string;
+  latestReleaseDate?: string;
+  description?: string;
+  homepage?: string;
+  author?: string;
+  license?: string;
+  requiresPython?: string;
+  releases: number;
+  /** Daily downloads, without mirrors unless `includesMirrors` */
+  downloadsRange: DailyDownloads[];
+  /** Whether the overall series, the chart and the download counts include downloads from mirrors */
+  includesMirrors?: boolean;
+  /** How Python versions are broken down; 'support' adds the series and breakdown by support status */
+  pythonVersions?: PythonVersionGrouping;
+  overallSeries: PypiSeriesPoint[];
+  pythonMajorSeries: PypiSeriesPoint[];
+  pythonMinorSeries: PypiSeriesPoint[];
+  systemSeries: PypiSeriesPoint[];
+  installerSeries: PypiSeriesPoint[];
+  popularSystem?: string;
+  popularInstaller?: string;
+  /** Server-prepared chart JSON, preferred for rendering */
+  overallChart: PypiChart;
+  pythonMajorChart: PypiChart;
+  pythonMinorChart: PypiChart;
+  systemChart: PypiChart;
+  installerChart: PypiChart;
+  pythonVersionBreakdown: Record<string, number> | null;
+  pythonMinorBreakdown: Record<string, number> | null;
+  systemBreakdown: Record<string, number> | null;
+  /** Downloads per support status of their Python minor version, when `pythonVersions` is 'support' */
+  pythonSupportSeries?: PypiSeriesPoint[];
+  pythonSupportBreakdown?: Record<string, number>;
+}
+
+export type PythonVersionGrouping = 'minor' | 'support';
+
+export interface PowerShellVersionDownloads extends DailyDownloads {
+  /** Publish time of the version */
+  day: string;
+  /** Cumulative downloads of the version */
+  downloads: number;
+  version: string;
+}
+
+/**
+ * Cumulative download counts as seen by one run. The gallery has no download time series,
+ * so daily, weekly and monthly downloads are derived from the differences between runs.
+ */
+export interface PowerShellDownloadsSnapshot {
+  day: string;
+  downloadsTotal: number;
+  versions?: Record<string, number>;
+}
+
+export interface PowerShellMetrics {
+  downloadsTotal: number;
+  /** Derived from earlier runs' snapshots; null until one old enough exists */
+  downloadsMonthly: number | null;
+  downloadsWeekly: number | null;
+  downloadsDaily: number | null;
+  downloadsRange: PowerShellVersionDownloads[];
+  dailyDownloadsRange: DailyDownloads[];
+  downloadsSnapshots: PowerShellDownloadsSnapshot[];
+  versionDownloadsDaily: Record<string, number>;
+  versionDownloadsWeekly: Record<string, number>;
+  latestVersionDownloads: number;
+  latestVersion: string;
+  latestVersionDate: string;
+  versionCount: number;
+  lastUpdated: string;
+  authors?: string;
+  description?: string;
+  projectUrl?: string | null;
+  packageSize?: number;
+  companyName?: string;
+  owners?: string;
+}
+
+/**
+ * Why a source failed: it does not exist, it kept failing after retries, or the request itself was rejected
+ */
+export type ErrorKind = 'not-found' | 'transient' | 'permanent';
+
 export interface MetricCollector {
-  collect(source: string): Promise<MetricResult>;
-  collectBatch?(sources: string[]): Promise<MetricResult[]>;
+  collect(source: string, options?: SourceOptions): Promise<MetricResult>;
+  collectBatch?(sources: SourceConfig[]): Promise<MetricResult[]>;
 }
 
 export interface CollectorConfig {
@@ -31,10 +267,32 @@ export interface CollectorConfig {
   batched?: boolean;
 }
 
+export type SourceOptionType = 'string' | 'boolean' | 'number';
+
+/**
+ * Everything the action needs to know about a platform, registered once in the registry
+ */
+export interface PlatformDefinition extends CollectorConfig {
+  platform: string;
+  aliases?: string[];
+  language?: string;
+  options?: Record<string, SourceOptionType>;
+  formatSummary?(summary: string, platformMetrics: MetricResult[]): string;
+  addDetails?(summary: string, platformMetrics: MetricResult[]): string | Promise<string>;
+  addCharts?(summary: string, platformMetrics: MetricResult[]): string | Promise<string>;
+}
+
+export interface SourceOptions {
+  displayName?: string;
+  group?: string;
+  benchmark?: boolean;
+  [flag: string]: unknown;
+}
+
 export interface SourceConfig {
   platform: string;
   name: string;
-  options?: Record<string, any>;
+  options?: SourceOptions;
 }
 
 export interface CollectionResult {
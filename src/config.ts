@@ -0,0 +1,145 @@
+/**
+ * Declarative sources configuration loaded from a YAML or JSON file
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { parsePythonVersionGrouping } from './collectors/pypi.js';
+import type { PlatformDefinition, SourceConfig, SourceOptionType, SourceOptions } from './collectors/types.js';
+import { getPlatform, getPlatforms } from './registry.js';
+
+// Options every source may carry, regardless of platform
+const CommonOptions: Record<string, SourceOptionType> = {
+    displayName: 'string',
+    group: 'string',
+    benchmark: 'boolean',
+}
+
+// Options whose values are checked beyond their type, so a bad value fails when the config is loaded
+const OptionParsers: Record<string, Record<string, (value: string) => unknown>> = {
+    PyPI: { pythonVersions: parsePythonVersionGrouping },
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateOptions(definition: PlatformDefinition, options: unknown, path: string, errors: string[]): SourceOptions | undefined {
+    if (options === undefined || options === null) return undefined
+    if (!isPlainObject(options)) {
+        errors.push(`${path}: expected an object`)
+        return undefined
+    }
+
+    const platform = definition.platform
+    const allowed = { ...CommonOptions, ...definition.options }
+    for (const [key, value] of Object.entries(options)) {
+        const expected = allowed[key]
+        if (!expected) {
+            errors.push(`${path}.${key}: unknown option for ${platform} (expected one of ${Object.keys(allowed).join(', ')})`)
+        } else if (typeof value !== expected) {
+            errors.push(`${path}.${key}: expected a ${expected}, got ${Array.isArray(value) ? 'array' : typeof value}`)
+        } else {
+            try {
+                OptionParsers[platform]?.[key]?.(value as string)
+            } catch (error) {
+                errors.push(`${path}.${key}: ${error instanceof Error ? error.message : String(error)}`)
+            }
+        }
+    }
+
+    return options as SourceOptions
+}
+
+/**
+ * Validate a parsed sources document
+ * @param document - The parsed YAML/JSON content, either a list of sources or an object with a `sources` list
+ * @returns The validated sources with canonical platform names
+ * @throws Error listing every problem found in the document
+ */
+export function validateSourcesConfig(document: unknown): SourceConfig[] {
+    const entries = isPlainObject(document) ? document.sources : document
+    if (!Array.isArray(entries)) {
+        throw new Error('expected a list of sources or an object with a "sources" list')
+    }
+
+    const errors: string[] = []
+    const sources: SourceConfig[] = []
+    const seen = new Set<string>()
+
+    entries.forEach((entry, index) => {
+        const path = `sources[${index}]`
+        if (!isPlainObject(entry)) {
+            errors.push(`${path}: expected an object with "platform" and "name"`)
+            return
+        }
+
+        for (const key of Object.keys(entry)) {
+            if (!['platform', 'name', 'options'].includes(key)) {
+                errors.push(`${path}.${key}: unknown field (expected platform, name, options)`)
+            }
+        }
+
+        const { platform: rawPlatform, name, options } = entry
+        if (typeof rawPlatform !== 'string' || !rawPlatform.trim()) {
+            errors.push(`${path}.platform: required string`)
+            return
+        }
+        const definition = getPlatform(rawPlatform)
+        if (!definition) {
+            errors.push(`${path}.platform: unknown platform "${rawPlatform}" (expected one of ${getPlatforms().map(p => p.platform).join(', ')})`)
+            return
+        }
+        const platform = definition.platform
+        if (typeof name !== 'string' || !name.trim()) {
+            errors.push(`${path}.name: required string`)
+            return
+        }
+        if (platform === 'GitHub' && !/^[^/\s]+\/[^/\s]+$/.test(name.trim())) {
+            errors.push(`${path}.name: "${name}" is not in "owner/repo" format`)
+        }
+
+        const key = `${platform}:${name.trim()}`
+        if (seen.has(key)) {
+            errors.push(`${path}: duplicate source ${platform} "${name.trim()}"`)
+        }
+        seen.add(key)
+
+        const validatedOptions = validateOptions(definition, options, `${path}.options`, errors)
+        sources.push({
+            platform,
+            name: name.trim(),
+            ...(validatedOptions ? { options: validatedOptions } : {}),
+        })
+    })
+
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'))
+    }
+
+    return sources
+}
+
+/**
+ * Load and validate a sources config file
+ * @param configPath - Path to a `.yml`, `.yaml` or `.json` file
+ * @returns The sources listed in the file
+ */
+export async function loadSourcesConfig(configPath: string): Promise<SourceConfig[]> {
+    const content = await readFile(configPath, 'utf8')
+    const extension = extname(configPath).toLowerCase()
+
+    let document: unknown
+    try {
+        document = extension === '.json' ? JSON.parse(content) : parseYaml(content)
+    } catch (error) {
+        throw new Error(`Could not parse sources config ${configPath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    try {
+        return validateSourcesConfig(document)
+    } catch (error) {
+        throw new Error(`Invalid sources config ${configPath}:\n${error instanceof Error ? error.message : String(error)}`)
+    }
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureRecorder } from './clients/recorder.js';
+import { setClock } from './clock.js';
+import type { MetricResult } from './collectors/types.js';
+import { baselineFromHistory, baselineFromStats, deltaCell, deltaHeader, formatChange, formatDeltaCaption, loadDeltaBaseline, parseDeltaBaselineSource, setDeltaBaseline, totalDeltaCell } from './deltas.js';
+import type { HistorySnapshot } from './history.js';
+
+function result(name: string, downloadsTotal: number, timestamp = '2025-06-30T06:00:00.000Z'): MetricResult {
+    return { platform: 'NPM', name, timestamp, metrics: { downloadsTotal, downloadsRange: [] } }
+}
+
+function snapshot(name: string, day: string, downloadsTotal: number): HistorySnapshot {
+    return { platform: 'NPM', name, timestamp: `${day}T06:00:00.000Z`, metrics: { downloadsTotal } }
+}
+
+describe('formatChange', () => {
+    test('shows the difference with its percentage', () => {
+        expect(formatChange(1_100, 1_000)).toBe('+100 (▲10%)')
+        expect(formatChange(950, 1_000)).toBe('-50 (▼5%)')
+        expect(formatChange(1_000, 1_000)).toBe('0')
+    })
+
+    test('leaves the percentage out when there was nothing before', () => {
+        expect(formatChange(25, 0)).toBe('+25')
+    })
+})
+
+describe('baselines', () => {
+    test('a stats file baseline takes every successful source', () => {
+        const failed: MetricResult = { platform: 'NPM', name: 'b', timestamp: '2025-06-29T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+        const baseline = baselineFromStats([result('a', 100, '2025-06-29T06:00:00.000Z'), failed])
+        expect(baseline.label).toBe('the previous run (2025-06-29)')
+        expect(baseline.values.get('NPM:a')).toEqual({ downloadsTotal: 100 })
+        expect(baseline.values.has('NPM:b')).toBe(false)
+    })
+
+    test('a history baseline takes the latest snapshot at least the period old', () => {
+        const history = [snapshot('a', '2025-06-20', 100), snapshot('a', '2025-06-23', 130), snapshot('a', '2025-06-27', 170), snapshot('a', '2025-06-30', 200)]
+        const asOf = new Date('2025-06-30T06:00:00.000Z')
+
+        const weekly = baselineFromHistory(history, 7, asOf)
+        expect(weekly.label).toBe('7 days earlier')
+        expect(weekly.values.get('NPM:a')).toEqual({ downloadsTotal: 130 })
+
+        // Without a period, the latest snapshot before this run, never this run's own
+        const previous = baselineFromHistory(history, 0, asOf)
+        expect(previous.label).toBe('the previous run')
+        expect(previous.values.get('NPM:a')).toEqual({ downloadsTotal: 170 })
+    })
+
+    test('rejects an unknown baseline source', () => {
+        expect(parseDeltaBaselineSource('')).toBe('none')
+        expect(parseDeltaBaselineSource('History')).toBe('history')
+        expect(() => parseDeltaBaselineSource('yesterday')).toThrow('Invalid delta-baseline value "yesterday"')
+    })
+})
+
+describe('loadDeltaBaseline', () => {
+    let dir: string
+
+    afterEach(async () => {
+        await configureRecorder('live', '')
+        setClock(undefined)
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    test('replays compare with the previous results recorded with the fixtures, not the stats file', async () => {
+        dir = mkdtempSync(join(tmpdir(), 'deltas-'))
+        const statsPath = join(dir, 'stats.json')
+        writeFileSync(statsPath, JSON.stringify([result('a', 500, '2025-07-10T06:00:00.000Z')]))
+        const previous = { results: [result('a', 100, '2025-06-29T06:00:00.000Z')], fullRefresh: false }
+        writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ recordedAt: '2025-06-30T06:00:00.000Z', previous }))
+
+        await configureRecorder('replay', dir)
+        const baseline = await loadDeltaBaseline('stats', [result('a', 150)], { statsPath })
+        expect(baseline?.label).toBe('the previous run (2025-06-29)')
+        expect(baseline?.values.get('NPM:a')).toEqual({ downloadsTotal: 100 })
+
+        // Fixtures recorded without previous results have no baseline
+        writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ recordedAt: '2025-06-30T06:00:00.000Z' }))
+        await configureRecorder('replay', dir)
+        expect(await loadDeltaBaseline('stats', [result('a', 150)], { statsPath })).toBeUndefined()
+    })
+})
+
+describe('change cells', () => {
+    afterEach(() => {
+        setDeltaBaseline(undefined)
+    })
+
+    test('are left out without a baseline', () => {
+        expect(deltaHeader('Downloads')).toBe('')
+        expect(deltaCell(result('a', 100), 'downloadsTotal')).toBe('')
+        expect(formatDeltaCaption()).toBe('')
+    })
+
+    test('compare each source and the total with the baseline', () => {
+        setDeltaBaseline(baselineFromStats([result('a', 100, '2025-06-29T06:00:00.000Z'), result('b', 50, '2025-06-29T06:00:00.000Z')]))
+        const current = [result('a', 150), result('b', 50), result('new', 10)]
+
+        expect(deltaHeader('Downloads')).toBe(' Downloads Δ |')
+        expect(formatDeltaCaption()).toBe('Changes (Δ) are since the previous run (2025-06-29).\n\n')
+        expect(deltaCell(current[0], 'downloadsTotal')).toBe(' +50 (▲50%) |')
+        expect(deltaCell(current[2], 'downloadsTotal')).toBe(' — |')
+        // Sources missing from the baseline are left out of the total change
+        expect(totalDeltaCell(current, 'downloadsTotal')).toBe(' **+50 (▲33.3%)** |')
+        expect(totalDeltaCell([current[2]], 'downloadsTotal')).toBe(' — |')
+    })
+})
@@ -0,0 +1,175 @@
+/**
+ * Period-over-period changes for the summary tables, measured against a baseline
+ * taken from a previous stats file or from the snapshot history
+ */
+
+import { existsSync } from 'fs';
+import { getHttpMode, getRecordedPreviousResults } from './clients/recorder.js';
+import { metricValues, type MetricResult } from './collectors/types.js';
+import { type HistorySnapshot, historySourceKey, readHistory } from './history.js';
+import { readStats } from './stats.js';
+
+export type DeltaBaselineSource = 'none' | 'stats' | 'history';
+
+export interface DeltaBaseline {
+    /** Human readable description of what the changes are measured against */
+    label: string;
+    values: Map<string, Record<string, number>>;
+}
+
+const DELTA_BASELINE_SOURCES: DeltaBaselineSource[] = ['none', 'stats', 'history']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let baseline: DeltaBaseline | undefined
+
+export function parseDeltaBaselineSource(input: string): DeltaBaselineSource {
+    const source = (input.trim().toLowerCase() || 'none') as DeltaBaselineSource
+    if (!DELTA_BASELINE_SOURCES.includes(source)) {
+        throw new Error(`Invalid delta-baseline value "${input}" (expected ${DELTA_BASELINE_SOURCES.join(', ')})`)
+    }
+    return source
+}
+
+/**
+ * Set the baseline the summary tables compare against; undefined hides the change columns
+ */
+export function setDeltaBaseline(next: DeltaBaseline | undefined) {
+    baseline = next
+}
+
+export function getDeltaBaseline() {
+    return baseline
+}
+
+function numericMetrics(metric: MetricResult) {
+    const values: Record<string, number> = {}
+    for (const [key, value] of Object.entries(metric.metrics || {})) {
+        if (typeof value === 'number' && Number.isFinite(value)) values[key] = value
+    }
+    return values
+}
+
+/**
+ * Use the results of a previous run (its stats file) as the baseline
+ */
+export function baselineFromStats(previous: MetricResult[]): DeltaBaseline {
+    const successful = previous.filter(metric => !metric.error)
+    const latest = successful.map(metric => metric.timestamp).sort().pop()
+    return {
+        label: latest ? `the previous run (${latest.slice(0, 10)})` : 'the previous run',
+        values: new Map(successful.map(metric => [historySourceKey(metric), numericMetrics(metric)])),
+    }
+}
+
+/**
+ * Use the snapshot history as the baseline
+ * @param history - Snapshots from readHistory, written before this run
+ * @param periodDays - Compare against the latest snapshot at least this many days old; 0 compares against the latest earlier snapshot
+ * @param asOf - The time of this run; snapshots from this run itself are ignored
+ */
+export function baselineFromHistory(history: HistorySnapshot[], periodDays: number, asOf: Date): DeltaBaseline {
+    const cutoff = new Date(asOf.getTime() - periodDays * DAY_MS).toISOString()
+    const values = new Map<string, Record<string, number>>()
+    const timestamps = new Map<string, string>()
+
+    for (const snapshot of history) {
+        if (periodDays > 0 ? snapshot.timestamp > cutoff : snapshot.timestamp >= cutoff) continue
+        const key = historySourceKey(snapshot)
+        const seen = timestamps.get(key)
+        if (!seen || snapshot.timestamp > seen) {
+            timestamps.set(key, snapshot.timestamp)
+            values.set(key, snapshot.metrics)
+        }
+    }
+
+    return {
+        label: periodDays > 0 ? `${periodDays} days earlier` : 'the previous run',
+        values,
+    }
+}
+
+/**
+ * Load the baseline for this run's results. Replays compare with the previous results recorded
+ * with their fixtures, which the replayed run started from, instead of the stats file on disk.
+ * @param source - Where the baseline comes from
+ * @param metrics - This run's results
+ * @param paths - The previous stats file and the history file; a missing file means no baseline
+ * @param periodDays - For history baselines, how far back to compare
+ */
+export async function loadDeltaBaseline(
+    source: DeltaBaselineSource,
+    metrics: MetricResult[],
+    paths: { statsPath?: string; historyPath?: string },
+    periodDays = 0,
+): Promise<DeltaBaseline | undefined> {
+    if (source === 'stats' && getHttpMode() === 'replay') {
+        const recorded = getRecordedPreviousResults().results
+        return recorded.length > 0 ? baselineFromStats(recorded) : undefined
+    }
+    if (source === 'stats' && paths.statsPath && existsSync(paths.statsPath)) {
+        return baselineFromStats(await readStats(paths.statsPath))
+    }
+    if (source === 'history' && paths.historyPath && existsSync(paths.historyPath)) {
+        const asOf = metrics.map(metric => metric.timestamp).sort().pop()
+        return baselineFromHistory(await readHistory(paths.historyPath), periodDays, asOf ? new Date(asOf) : new Date())
+    }
+    return undefined
+}
+
+/**
+ * Format a change as `+1,234 (▲3.2%)`
+ */
+export function formatChange(current: number, previous: number): string {
+    const change = current - previous
+    const sign = change > 0 ? '+' : ''
+    if (change === 0) return '0'
+    if (previous === 0) return `${sign}${change.toLocaleString()}`
+    const percent = Math.round(Math.abs(change / previous) * 1000) / 10
+    return `${sign}${change.toLocaleString()} (${change > 0 ? '▲' : '▼'}${percent}%)`
+}
+
+/**
+ * Header cell for a change column; empty when no baseline is set.
+ * The table helpers below return `' value |'` so they can be dropped in after any `|` of a row.
+ */
+export function deltaHeader(label: string) {
+    return baseline ? ` ${label} Δ |` : ''
+}
+
+export function deltaDivider() {
+    return baseline ? ` --- |` : ''
+}
+
+export function deltaCell(metric: MetricResult, key: string) {
+    if (!baseline) return ''
+    const previous = baseline.values.get(historySourceKey(metric))?.[key]
+    const current = metricValues(metric.metrics)[key]
+    if (metric.error || typeof current !== 'number' || previous === undefined) return ` — |`
+    return ` ${formatChange(current, previous)} |`
+}
+
+/**
+ * Change cell for a totals row, summing the sources present in both this run and the baseline
+ */
+export function totalDeltaCell(platformMetrics: MetricResult[], key: string) {
+    if (!baseline) return ''
+    let current = 0
+    let previous = 0
+    let compared = 0
+    for (const metric of platformMetrics) {
+        const before = baseline.values.get(historySourceKey(metric))?.[key]
+        const after = metricValues(metric.metrics)[key]
+        if (metric.error || typeof after !== 'number' || before === undefined) continue
+        current += after
+        previous += before
+        compared++
+    }
+    return compared > 0 ? ` **${formatChange(current, previous)}** |` : ` — |`
+}
+
+/**
+ * A line explaining what the change columns compare against, for the top of the summary
+ */
+export function formatDeltaCaption() {
+    return baseline ? `Changes (Δ) are since ${baseline.label}.\n\n` : ''
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import { configureForecast, forecastCell, forecastChartData, forecastSeries, formatForecastNotes, sumForecast, totalForecastCell } from './forecast.js';
+
+// Four weeks from Monday 2025-06-02
+function series(downloadsOn: (day: string, index: number) => number, length = 28) {
+    return Array.from({ length }, (_, index) => {
+        const day = new Date(Date.UTC(2025, 5, 2 + index)).toISOString().slice(0, 10)
+        return { day, downloads: downloadsOn(day, index) }
+    })
+}
+
+const isWeekend = (day: string) => [0, 6].includes(new Date(day).getUTCDay())
+
+const STEADY = series(() => 100)
+// Busy weekdays, quiet weekends, no trend
+const WEEKLY = series(day => isWeekend(day) ? 30 : 100)
+
+function npm(name: string, downloadsTotal: number, range = STEADY): MetricResult {
+    return { platform: 'NPM', name, timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal, downloadsRange: range } }
+}
+
+describe('forecastSeries', () => {
+    test('projects a steady series as it is, with no range', () => {
+        const forecast = forecastSeries(STEADY, 7)!
+        expect(forecast.points.map(point => point.day)).toEqual(['2025-06-30', '2025-07-01', '2025-07-02', '2025-07-03', '2025-07-04', '2025-07-05', '2025-07-06'])
+        expect(forecast).toMatchObject({ total: 700, lower: 700, upper: 700, dailyTrend: 0 })
+    })
+
+    test('keeps the weekday pattern', () => {
+        const forecast = forecastSeries(WEEKLY, 7)!
+        expect(forecast.points.map(point => point.downloads)).toEqual([100, 100, 100, 100, 100, 30, 30])
+        expect(forecast.dailyTrend).toBeCloseTo(0)
+    })
+
+    test('follows a trend and widens the range with noise', () => {
+        const growing = series((_, index) => 100 + 2 * index + (index % 2 ? 5 : -5))
+        const forecast = forecastSeries(growing, 7)!
+        expect(forecast.dailyTrend).toBeGreaterThan(1.5)
+        const lastWeek = growing.slice(-7).reduce((sum, point) => sum + point.downloads, 0)
+        expect(forecast.total).toBeGreaterThan(lastWeek)
+        expect(forecast.lower).toBeLessThan(forecast.total)
+        expect(forecast.upper).toBeGreaterThan(forecast.total)
+    })
+
+    test('estimates when a threshold is crossed, beyond the horizon if needed', () => {
+        expect(forecastSeries(STEADY, 7, 1_250, 1_000)!.thresholdDay).toBe('2025-07-02')
+        expect(forecastSeries(STEADY, 7, 3_000, 1_000)!.thresholdDay).toBe('2025-07-19')
+        expect(forecastSeries(STEADY, 7, 900, 1_000)!.thresholdDay).toBeUndefined()
+        expect(forecastSeries(series(() => 0), 7, 1_250, 1_000)!.thresholdDay).toBeUndefined()
+    })
+
+    test('needs four weeks of history and a horizon', () => {
+        expect(forecastSeries(STEADY.slice(1), 7)).toBeUndefined()
+        expect(forecastSeries(STEADY, 0)).toBeUndefined()
+    })
+})
+
+describe('sumForecast', () => {
+    test('adds daily noise in quadrature and trend errors in full', () => {
+        const point = { day: '2025-07-01', downloads: 10, lower: 0, upper: 0, noiseSd: 3, trendSd: 2 }
+        // 1.645 * sqrt(3² + 3² + (2 + 2)²) ≈ 9.6
+        expect(sumForecast([point, point])).toEqual({ downloads: 20, lower: 10, upper: 30 })
+    })
+})
+
+describe('forecastChartData', () => {
+    test('adds the projection to the current month and leaves out a partly covered last month', () => {
+        // 2025-06-30 to 2025-08-08: one day of June, all of July, eight days of August
+        const forecast = forecastSeries(STEADY, 40)!
+        const chart = forecastChartData(['2025-05', '2025-06'], [2_500, 2_900], forecast, day => day.slice(0, 7))
+        expect(chart.labels).toEqual(['2025-05', '2025-06', '2025-07'])
+        expect(chart.datasets[0].data).toEqual([null, 3_000, 3_100])
+    })
+})
+
+describe('forecast columns', () => {
+    afterEach(() => {
+        configureForecast({ horizonDays: 0, threshold: 0 })
+    })
+
+    test('are left out when forecasting is off', () => {
+        expect(forecastCell(npm('a', 0))).toBe('')
+        expect(formatForecastNotes([npm('a', 0)])).toBe('')
+    })
+
+    test('show each projection, the total and when the threshold is reached', () => {
+        configureForecast({ horizonDays: 7, threshold: 5_000 })
+        const failed: MetricResult = { platform: 'NPM', name: 'failing', timestamp: '2025-06-30T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+        const metrics = [npm('a', 4_500), npm('b', 6_000), npm('c', 100, series(() => 0)), failed]
+
+        expect(forecastCell(metrics[0])).toBe(' 700 (700–700) |')
+        expect(forecastCell(failed)).toBe(' — |')
+        expect(totalForecastCell(metrics)).toBe(' **1,400** |')
+        expect(formatForecastNotes(metrics)).toBe(
+            '\nProjected downloads over the next 7 days follow the trend of the last 180 days with its weekday pattern, with a 90% range.\n'
+            + '- a is projected to reach 5,000 downloads around 2025-07-04\n'
+            + '- b has passed 5,000 downloads\n'
+            + '- c is not projected to reach 5,000 downloads within 5 years\n'
+        )
+    })
+})
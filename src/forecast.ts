@@ -0,0 +1,282 @@
+/**
+ * Download forecasts: a linear trend with weekday seasonality, fitted to the recent daily downloads,
+ * projected forward for planning and for estimating when a package will reach a download threshold
+ */
+
+import type { MetricResult } from './collectors/types.js';
+
+export interface ForecastOptions {
+    /** Days to project; 0 turns forecasting off */
+    horizonDays: number;
+    /** Total downloads to estimate the crossing date for; 0 for none */
+    threshold: number;
+}
+
+export interface ForecastPoint {
+    day: string;
+    downloads: number;
+    lower: number;
+    upper: number;
+    /** Standard deviations of the day-to-day noise and of the trend, used to combine ranges over several days */
+    noiseSd: number;
+    trendSd: number;
+}
+
+export interface Forecast {
+    points: ForecastPoint[];
+    /** Projected downloads over the whole horizon */
+    total: number;
+    lower: number;
+    upper: number;
+    /** Average change in daily downloads per day, after removing the weekday pattern */
+    dailyTrend: number;
+    /** The day total downloads are projected to reach the threshold, if within MAX_CROSSING_DAYS */
+    thresholdDay?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// The trend follows the recent past; older history says little about the next quarter
+const TRAINING_DAYS = 180
+const MIN_TRAINING_DAYS = 28
+// Two-sided 90% interval
+const Z_90 = 1.645
+const MAX_CROSSING_DAYS = 5 * 365
+
+let options: ForecastOptions = { horizonDays: 0, threshold: 0 }
+
+/**
+ * Turn forecasting on or off; omitted options keep their current values
+ */
+export function configureForecast(next: Partial<ForecastOptions>) {
+    options = { ...options, ...next }
+}
+
+export function getForecastOptions(): Readonly<ForecastOptions> {
+    return options
+}
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day.slice(0, 10)}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function weekday(day: string) {
+    return new Date(`${day.slice(0, 10)}T00:00:00Z`).getUTCDay()
+}
+
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Projected downloads over several days with a 90% range. Noise is independent from day to day,
+ * while an error in the trend carries over to every day, so the two are combined differently.
+ */
+export function sumForecast(points: ForecastPoint[]) {
+    const downloads = points.reduce((sum, point) => sum + point.downloads, 0)
+    const noiseVariance = points.reduce((sum, point) => sum + point.noiseSd ** 2, 0)
+    const trendSd = points.reduce((sum, point) => sum + point.trendSd, 0)
+    const margin = Z_90 * Math.sqrt(noiseVariance + trendSd ** 2)
+    return { downloads, lower: Math.round(Math.max(0, downloads - margin)), upper: Math.round(downloads + margin) }
+}
+
+/**
+ * Fit the model to a daily series and project it forward
+ * @param series - Daily downloads in time order, one entry per day
+ * @param horizonDays - Days to project after the last day of the series
+ * @param threshold - Total downloads to estimate the crossing date for, counted on top of `currentTotal`
+ * @param currentTotal - Downloads up to the last day of the series
+ * @returns The forecast, or undefined when the series is shorter than MIN_TRAINING_DAYS
+ */
+export function forecastSeries(series: { day: string; downloads: number }[], horizonDays: number, threshold = 0, currentTotal = 0): Forecast | undefined {
+    const training = series.slice(-TRAINING_DAYS)
+    if (training.length < MIN_TRAINING_DAYS || horizonDays <= 0) return undefined
+
+    // Weekday factors: how each weekday compares with the average day
+    const mean = training.reduce((sum, point) => sum + point.downloads, 0) / training.length
+    const factors = Array.from({ length: 7 }, (_, day) => {
+        const values = training.filter(point => weekday(point.day) === day).map(point => point.downloads)
+        const dayMean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+        return mean > 0 && dayMean > 0 ? dayMean / mean : 1
+    })
+
+    // Least squares line through the deseasonalized values
+    const n = training.length
+    const y = training.map(point => point.downloads / factors[weekday(point.day)])
+    const tMean = (n - 1) / 2
+    const yMean = y.reduce((sum, value) => sum + value, 0) / n
+    let sxx = 0
+    let sxy = 0
+    for (let t = 0; t < n; t++) {
+        sxx += (t - tMean) ** 2
+        sxy += (t - tMean) * (y[t] - yMean)
+    }
+    const slope = sxx > 0 ? sxy / sxx : 0
+    const intercept = yMean - slope * tMean
+    // Median absolute deviation, so a single spike does not widen every range
+    const residual = median(y.map((value, t) => Math.abs(value - (intercept + slope * t)))) * 1.4826
+
+    const lastDay = training[n - 1].day
+    const project = (offset: number): ForecastPoint => {
+        const t = n - 1 + offset
+        const day = addDays(lastDay, offset)
+        const factor = factors[weekday(day)]
+        const expected = Math.max(0, (intercept + slope * t) * factor)
+        const noiseSd = residual * factor
+        const trendSd = residual * factor * Math.sqrt(1 / n + (t - tMean) ** 2 / (sxx || 1))
+        const margin = Z_90 * Math.sqrt(noiseSd ** 2 + trendSd ** 2)
+        return { day, downloads: Math.round(expected), lower: Math.round(Math.max(0, expected - margin)), upper: Math.round(expected + margin), noiseSd, trendSd }
+    }
+
+    const points = Array.from({ length: horizonDays }, (_, index) => project(index + 1))
+    const { downloads: total, lower, upper } = sumForecast(points)
+    const forecast: Forecast = { points, total, lower, upper, dailyTrend: slope }
+
+    if (threshold > currentTotal) {
+        let cumulative = currentTotal
+        for (let offset = 1; offset <= MAX_CROSSING_DAYS; offset++) {
+            const point = offset <= horizonDays ? points[offset - 1] : project(offset)
+            cumulative += point.downloads
+            if (cumulative >= threshold) {
+                forecast.thresholdDay = point.day
+                break
+            }
+        }
+    }
+    return forecast
+}
+
+/**
+ * Forecast a result's daily downloads (`downloadsRange`) with the configured horizon and threshold
+ * @returns undefined when forecasting is off, the source failed or there is too little daily history
+ */
+export function forecastDownloads(metric: MetricResult): Forecast | undefined {
+    if (options.horizonDays <= 0 || metric.error) return undefined
+    const range = (metric.metrics?.downloadsRange || [])
+        .map(entry => ({ day: entry.day.slice(0, 10), downloads: entry.downloads }))
+        .sort((a, b) => a.day.localeCompare(b.day))
+    return forecastSeries(range, options.horizonDays, options.threshold, metric.metrics?.downloadsTotal || 0)
+}
+
+/**
+ * Header cell for the projected downloads column; empty when forecasting is off.
+ * Like the change column helpers, cells are returned as `' value |'`.
+ */
+export function forecastHeader() {
+    return options.horizonDays > 0 ? ` Projected (${options.horizonDays}d) |` : ''
+}
+
+export function forecastDivider() {
+    return options.horizonDays > 0 ? ` --- |` : ''
+}
+
+function formatRange(forecast: Forecast) {
+    return `${forecast.total.toLocaleString()} (${forecast.lower.toLocaleString()}–${forecast.upper.toLocaleString()})`
+}
+
+export function forecastCell(metric: MetricResult) {
+    if (options.horizonDays <= 0) return ''
+    const forecast = forecastDownloads(metric)
+    return forecast ? ` ${formatRange(forecast)} |` : ` — |`
+}
+
+export function totalForecastCell(platformMetrics: MetricResult[]) {
+    if (options.horizonDays <= 0) return ''
+    const forecasts = platformMetrics.map(forecastDownloads).filter((forecast): forecast is Forecast => forecast !== undefined)
+    if (forecasts.length === 0) return ` — |`
+    const total = forecasts.reduce((sum, forecast) => sum + forecast.total, 0)
+    return ` **${total.toLocaleString()}** |`
+}
+
+/**
+ * Lines under a platform table explaining the projection and when each package is expected to reach the threshold
+ */
+export function formatForecastNotes(platformMetrics: MetricResult[]): string {
+    if (options.horizonDays <= 0) return ''
+    let notes = `\nProjected downloads over the next ${options.horizonDays} days follow the trend of the last ${TRAINING_DAYS} days with its weekday pattern, with a 90% range.\n`
+    if (options.threshold > 0) {
+        for (const metric of platformMetrics) {
+            const forecast = forecastDownloads(metric)
+            if (!forecast) continue
+            const name = metric.displayName || metric.name
+            const threshold = options.threshold.toLocaleString()
+            if ((metric.metrics?.downloadsTotal || 0) >= options.threshold) {
+                notes += `- ${name} has passed ${threshold} downloads\n`
+            } else if (forecast.thresholdDay) {
+                notes += `- ${name} is projected to reach ${threshold} downloads around ${forecast.thresholdDay}\n`
+            } else {
+                notes += `- ${name} is not projected to reach ${threshold} downloads within ${MAX_CROSSING_DAYS / 365} years\n`
+            }
+        }
+    }
+    return notes
+}
+
+/**
+ * Chart labels and datasets extending a chart of downloads with the projection: a dashed line
+ * starting at the last plotted value, and a shaded 90% band
+ * @param labels - The chart's labels, in time order
+ * @param data - The values plotted for each label
+ * @param forecast - The forecast to draw
+ * @param bucketOf - The label a day falls under, such as its month; projected days are summed per label
+ */
+export function forecastChartData(labels: string[], data: number[], forecast: Forecast, bucketOf: (day: string) => string) {
+    const days = new Map<string, ForecastPoint[]>()
+    for (const point of forecast.points) {
+        const label = bucketOf(point.day)
+        days.set(label, [...(days.get(label) || []), point])
+    }
+    // A last bucket the horizon only partly covers (such as half a month) would look like a drop
+    const counts = Array.from(days.values()).map(points => points.length)
+    if (counts.length > 1 && counts[counts.length - 1] < counts[counts.length - 2]) {
+        days.delete(Array.from(days.keys()).pop()!)
+    }
+    const buckets = new Map(Array.from(days.entries()).map(([label, points]) => [label, sumForecast(points)]))
+
+    // A label that already has data (such as the current month) gets its actual value added to the projection
+    const extendedLabels = [...labels, ...Array.from(buckets.keys()).filter(label => !labels.includes(label))]
+    const lastActual = labels.length - 1
+    const valueAt = (index: number, key: 'downloads' | 'lower' | 'upper') => {
+        const label = extendedLabels[index]
+        const bucket = buckets.get(label)
+        const actual = index <= lastActual ? data[index] ?? 0 : 0
+        if (index < lastActual) return null
+        return bucket ? actual + bucket[key] : actual
+    }
+
+    const projected = extendedLabels.map((_, index) => valueAt(index, 'downloads'))
+    const lower = extendedLabels.map((_, index) => valueAt(index, 'lower'))
+    const upper = extendedLabels.map((_, index) => valueAt(index, 'upper'))
+
+    return {
+        labels: extendedLabels,
+        datasets: [{
+            label: 'Projected',
+            data: projected,
+            borderColor: 'rgba(100, 116, 139, 1)',
+            backgroundColor: 'rgba(100, 116, 139, 0)',
+            borderDash: [8, 6],
+            borderWidth: 2,
+            pointRadius: 0,
+            fill: false,
+            tension: 0.1,
+        }, {
+            label: 'Projected range (90%)',
+            data: upper,
+            borderColor: 'rgba(100, 116, 139, 0)',
+            backgroundColor: 'rgba(100, 116, 139, 0.15)',
+            pointRadius: 0,
+            fill: '+1' as const,
+            tension: 0.1,
+        }, {
+            label: '',
+            data: lower,
+            borderColor: 'rgba(100, 116, 139, 0)',
+            backgroundColor: 'rgba(100, 116, 139, 0)',
+            pointRadius: 0,
+            fill: false,
+            tension: 0.1,
+        }],
+    }
+}
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MetricResult } from './collectors/types.js';
+import { appendHistory, getMetricHistory, getSourceHistory, readHistory, type HistorySnapshot } from './history.js';
+
+function github(name: string, day: string, stars: number): MetricResult {
+    return {
+        platform: 'GitHub',
+        name,
+        timestamp: `${day}T06:00:00.000Z`,
+        metrics: { stars, language: 'TypeScript', downloadsRange: [{ day: '2025-05-01', downloads: 40, tagName: 'v1.0.0' }] },
+    }
+}
+
+function snapshot(name: string, day: string, metrics: Record<string, number>, versions?: Record<string, number>): HistorySnapshot {
+    return { platform: 'NPM', name, timestamp: `${day}T06:00:00.000Z`, metrics, ...(versions ? { versions } : {}) }
+}
+
+describe('history file', () => {
+    let dir: string
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'history-'))
+    })
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    test('reads back the snapshots appended by each run', async () => {
+        const path = join(dir, 'history.jsonl')
+        const failed: MetricResult = { platform: 'GitHub', name: 'failing', timestamp: '2025-06-01T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+
+        const written = await appendHistory(path, [github('owner/repo', '2025-06-01', 10), failed])
+        await appendHistory(path, [github('owner/repo', '2025-06-02', 12)])
+
+        // Failed sources are skipped, only numbers are kept, and releases are stored by tag
+        expect(written).toEqual([{ timestamp: '2025-06-01T06:00:00.000Z', platform: 'GitHub', name: 'owner/repo', metrics: { stars: 10 }, versions: { 'v1.0.0': 40 } }])
+        expect((await readHistory(path)).map(entry => entry.metrics.stars)).toEqual([10, 12])
+    })
+
+    test('is empty until the first run writes it', async () => {
+        expect(await readHistory(join(dir, 'missing.jsonl'))).toEqual([])
+        expect(await appendHistory(join(dir, 'unwritten.jsonl'), [])).toEqual([])
+        expect(await readHistory(join(dir, 'unwritten.jsonl'))).toEqual([])
+    })
+
+    test('skips blank lines and names the line that is not a snapshot', async () => {
+        const path = join(dir, 'broken.jsonl')
+        writeFileSync(path, `${JSON.stringify(snapshot('a', '2025-06-01', { stars: 1 }))}\n\n{"timestamp":\n`)
+        await expect(readHistory(path)).rejects.toThrow(`${path}:3 is not a valid history snapshot`)
+
+        writeFileSync(path, `\n${JSON.stringify(snapshot('a', '2025-06-01', { stars: 1 }))}\n  \n`)
+        expect(await readHistory(path)).toHaveLength(1)
+    })
+})
+
+describe('history series', () => {
+    const history = [
+        snapshot('b', '2025-06-02', { downloadsTotal: 7 }),
+        snapshot('a', '2025-06-02', { downloadsTotal: 120 }, { '1.1.0': 20 }),
+        snapshot('a', '2025-06-01', { downloadsTotal: 100 }, { '1.0.0': 90 }),
+        snapshot('c', '2025-06-01', { stars: 3 }),
+    ]
+
+    test('gives a metric per source in time order, leaving out sources without it', () => {
+        expect(Object.fromEntries(getMetricHistory(history, 'downloadsTotal'))).toEqual({
+            'NPM:b': [{ timestamp: '2025-06-02T06:00:00.000Z', value: 7 }],
+            'NPM:a': [{ timestamp: '2025-06-01T06:00:00.000Z', value: 100 }, { timestamp: '2025-06-02T06:00:00.000Z', value: 120 }],
+        })
+    })
+
+    test('gives per-version downloads', () => {
+        expect(Object.fromEntries(getMetricHistory(history, 'versions.1.0.0'))).toEqual({ 'NPM:a': [{ timestamp: '2025-06-01T06:00:00.000Z', value: 90 }] })
+        expect(getMetricHistory(history, 'versions.2.0.0').size).toBe(0)
+    })
+
+    test('gives the snapshots of one source, oldest first', () => {
+        expect(getSourceHistory(history, { platform: 'NPM', name: 'a' }).map(entry => entry.metrics.downloadsTotal)).toEqual([100, 120])
+        expect(getSourceHistory(history, { platform: 'PyPI', name: 'a' })).toEqual([])
+    })
+})
@@ -0,0 +1,127 @@
+/**
+ * Snapshot history: every run appends one line per source to a JSONL file, so metrics
+ * without an upstream time series (stars, forks, open issues, per-version downloads) can be tracked over time
+ */
+
+import { existsSync } from 'fs';
+import { appendFile, readFile } from 'fs/promises';
+import type { DownloadsRangeEntry, MetricResult } from './collectors/types.js';
+
+export interface HistorySnapshot {
+    timestamp: string;
+    platform: string;
+    name: string;
+    /** Scalar counters at the time of the run */
+    metrics: Record<string, number>;
+    /** Downloads per version (PowerShell) or per release tag (GitHub) at the time of the run */
+    versions?: Record<string, number>;
+}
+
+export interface HistoryPoint {
+    timestamp: string;
+    value: number;
+}
+
+export function historySourceKey(source: { platform: string; name: string }) {
+    return `${source.platform}:${source.name}`
+}
+
+/**
+ * Reduce a metric result to what is worth keeping in the history
+ */
+export function toSnapshot(metric: MetricResult): HistorySnapshot {
+    const metrics: Record<string, number> = {}
+    let versions: Record<string, number> | undefined
+
+    for (const [key, value] of Object.entries(metric.metrics || {})) {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            metrics[key] = value
+        }
+    }
+
+    // Release and version lists are stored as { label: downloads }
+    const range: DownloadsRangeEntry[] | undefined = metric.metrics?.downloadsRange
+    for (const entry of Array.isArray(range) ? range : []) {
+        const label = entry?.version ?? entry?.tagName
+        if (typeof label === 'string' && typeof entry.downloads === 'number') {
+            versions = versions || {}
+            versions[label] = entry.downloads
+        }
+    }
+
+    return {
+        timestamp: metric.timestamp,
+        platform: metric.platform,
+        name: metric.name,
+        metrics,
+        ...(versions ? { versions } : {}),
+    }
+}
+
+/**
+ * Read every snapshot in a history file
+ * @param historyPath - Path to the JSONL history file
+ * @returns The snapshots in the order they were written, or an empty list if the file does not exist yet
+ */
+export async function readHistory(historyPath: string): Promise<HistorySnapshot[]> {
+    if (!existsSync(historyPath)) return []
+
+    const content = await readFile(historyPath, 'utf8')
+    return content.split('\n').flatMap((line, index) => {
+        if (!line.trim()) return []
+        try {
+            return [JSON.parse(line) as HistorySnapshot]
+        } catch {
+            throw new Error(`${historyPath}:${index + 1} is not a valid history snapshot`)
+        }
+    })
+}
+
+/**
+ * Append a snapshot of every successfully collected source
+ * @param historyPath - Path to the JSONL history file, created if missing
+ * @param metrics - The results of this run; failed sources are skipped so they do not show up as zeros
+ * @returns The snapshots written
+ */
+export async function appendHistory(historyPath: string, metrics: MetricResult[]): Promise<HistorySnapshot[]> {
+    const snapshots = metrics.filter(metric => !metric.error).map(toSnapshot)
+    if (snapshots.length > 0) {
+        await appendFile(historyPath, snapshots.map(snapshot => `${JSON.stringify(snapshot)}\n`).join(''), 'utf8')
+    }
+    return snapshots
+}
+
+/**
+ * A metric's values over time, per source
+ * @param history - Snapshots from readHistory
+ * @param metric - The metric name, such as `stars`, or `versions.<version>` for per-version downloads
+ * @returns Points in time order, keyed by `platform:name`; sources that never reported the metric are left out
+ */
+export function getMetricHistory(history: HistorySnapshot[], metric: string): Map<string, HistoryPoint[]> {
+    const version = metric.startsWith('versions.') ? metric.slice('versions.'.length) : undefined
+    const series = new Map<string, HistoryPoint[]>()
+
+    for (const snapshot of history) {
+        const value = version !== undefined ? snapshot.versions?.[version] : snapshot.metrics[metric]
+        if (value === undefined) continue
+
+        const key = historySourceKey(snapshot)
+        if (!series.has(key)) series.set(key, [])
+        series.get(key)!.push({ timestamp: snapshot.timestamp, value })
+    }
+
+    for (const points of series.values()) {
+        points.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    }
+    return series
+}
+
+/**
+ * The snapshots recorded for one source, oldest first
+ */
+export function getSourceHistory(history: HistorySnapshot[], source: { platform: string; name: string }): HistorySnapshot[] {
+    const key = historySourceKey(source)
+    return history
+        .filter(snapshot => historySourceKey(snapshot) === key)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
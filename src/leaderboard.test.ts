@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import { configureLeaderboard, formatLeaderboard, rankSources, setLeaderboardBaseline } from './leaderboard.js';
+
+function npm(name: string, downloadsMonthly: number): MetricResult {
+    return { platform: 'NPM', name, timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal: downloadsMonthly * 10, downloadsMonthly, downloadsRange: [] } }
+}
+
+function pypi(name: string, downloadsMonthly: number): MetricResult {
+    return { platform: 'PyPI', name, timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal: downloadsMonthly * 10, downloadsMonthly } }
+}
+
+describe('rankSources', () => {
+    test('ranks across platforms, highest first, with ties sharing a rank', () => {
+        const ranked = rankSources([npm('a', 100), pypi('b', 300), npm('c', 300), npm('d', 50)], 'downloadsMonthly')
+        expect(ranked.map(entry => [entry.name, entry.rank])).toEqual([['b', 1], ['c', 1], ['a', 3], ['d', 4]])
+    })
+
+    test('leaves out failed and benchmark sources and those without the metric', () => {
+        const failed: MetricResult = { platform: 'NPM', name: 'failing', timestamp: '2025-06-30T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+        const benchmark = { ...npm('rival', 1_000), benchmark: true }
+        const github: MetricResult = { platform: 'GitHub', name: 'owner/repo', timestamp: '2025-06-30T06:00:00.000Z', metrics: { stars: 5 } }
+        expect(rankSources([npm('a', 100), failed, benchmark, github], 'downloadsMonthly').map(entry => entry.name)).toEqual(['a'])
+    })
+})
+
+describe('formatLeaderboard', () => {
+    afterEach(() => {
+        configureLeaderboard('')
+        setLeaderboardBaseline([])
+    })
+
+    test('is left out without a metric', () => {
+        setLeaderboardBaseline([npm('a', 100)])
+        expect(formatLeaderboard([npm('a', 100)])).toBe('')
+    })
+
+    test('leaves the change column out without a previous run', () => {
+        configureLeaderboard(' downloadsMonthly ')
+        setLeaderboardBaseline([])
+        expect(formatLeaderboard([npm('a', 100), { ...pypi('b', 1_500), displayName: 'B' }])).toBe(
+            '### Leaderboard\n\n'
+            + '| Rank | Source | Platform | Monthly downloads |\n'
+            + '| --- | --- | --- | --- |\n'
+            + '| 1 | B | PyPI | 1,500 |\n'
+            + '| 2 | a | NPM | 100 |\n'
+            + '\n'
+        )
+    })
+
+    test('shows the movement of each source since the previous run', () => {
+        configureLeaderboard('downloadsMonthly')
+        setLeaderboardBaseline([npm('a', 500), npm('b', 400), npm('c', 300), npm('gone', 200)])
+        expect(formatLeaderboard([npm('a', 300), npm('b', 400), npm('c', 600), npm('new', 350)])).toBe(
+            '### Leaderboard\n\n'
+            + '| Rank | Change | Source | Platform | Monthly downloads |\n'
+            + '| --- | --- | --- | --- | --- |\n'
+            + '| 1 | ▲2 | c | NPM | 600 |\n'
+            + '| 2 | – | b | NPM | 400 |\n'
+            + '| 3 | new | new | NPM | 350 |\n'
+            + '| 4 | ▼3 | a | NPM | 300 |\n'
+            + '\n'
+        )
+    })
+
+    test('says so when no source reports the metric', () => {
+        configureLeaderboard('stars')
+        expect(formatLeaderboard([npm('a', 100)])).toBe('### Leaderboard\n\nNo sources report stars.\n\n')
+    })
+})
@@ -0,0 +1,83 @@
+/**
+ * Leaderboard: every tracked source ranked by one metric across platforms, with its movement since the previous run
+ */
+
+import { metricValues, type MetricResult } from './collectors/types.js';
+import { metricLabel } from './milestones.js';
+
+export interface LeaderboardEntry {
+    platform: string;
+    name: string;
+    value: number;
+    /** 1 for the highest value; tied sources share a rank */
+    rank: number;
+}
+
+let metricKey = ''
+let previousRanks: Map<string, number> | undefined
+
+function sourceKey(metric: { platform: string; name: string }) {
+    return `${metric.platform}:${metric.name}`
+}
+
+/**
+ * Choose the metric to rank by, such as downloadsMonthly or stars; empty turns the leaderboard off
+ */
+export function configureLeaderboard(metric: string) {
+    metricKey = metric.trim()
+}
+
+/**
+ * Rank every source that has the metric, highest first. Failed and benchmark sources are left out.
+ */
+export function rankSources(metrics: MetricResult[], key: string): LeaderboardEntry[] {
+    const values = metrics.flatMap(metric => {
+        const value = metricValues(metric.metrics)[key]
+        return !metric.error && !metric.benchmark && typeof value === 'number' && Number.isFinite(value) ? [{ platform: metric.platform, name: metric.name, value }] : []
+    }).sort((a, b) => b.value - a.value)
+    return values.map(entry => ({ ...entry, rank: values.findIndex(other => other.value === entry.value) + 1 }))
+}
+
+/**
+ * Set the previous run's results that rank movement is measured against
+ * @param previous - Results from the previous stats file; empty when there was no previous run
+ */
+export function setLeaderboardBaseline(previous: MetricResult[]) {
+    previousRanks = previous.length > 0 && metricKey
+        ? new Map(rankSources(previous, metricKey).map(entry => [sourceKey(entry), entry.rank]))
+        : undefined
+}
+
+/**
+ * Movement since the previous run, such as ▲2, ▼1 or new
+ */
+function formatMovement(entry: LeaderboardEntry, ranks: Map<string, number>) {
+    const previous = ranks.get(sourceKey(entry))
+    if (previous === undefined) return 'new'
+    if (previous > entry.rank) return `▲${previous - entry.rank}`
+    if (previous < entry.rank) return `▼${entry.rank - previous}`
+    return '–'
+}
+
+/**
+ * The "Leaderboard" section; empty when no metric is chosen
+ */
+export function formatLeaderboard(metrics: MetricResult[]): string {
+    if (!metricKey) return ''
+    const names = new Map(metrics.map(metric => [sourceKey(metric), metric.displayName || metric.name]))
+    const entries = rankSources(metrics, metricKey)
+    const label = metricLabel(metricKey)
+
+    let summary = `### Leaderboard\n\n`
+    if (entries.length === 0) {
+        return summary + `No sources report ${label}.\n\n`
+    }
+    // Movement needs a previous run to compare with
+    const movement = previousRanks
+    summary += `| Rank |${movement ? ' Change |' : ''} Source | Platform | ${label.charAt(0).toUpperCase()}${label.slice(1)} |\n`
+    summary += `| --- |${movement ? ' --- |' : ''} --- | --- | --- |\n`
+    for (const entry of entries) {
+        summary += `| ${entry.rank} |${movement ? ` ${formatMovement(entry, movement)} |` : ''} ${names.get(sourceKey(entry)) || entry.name} | ${entry.platform} | ${entry.value.toLocaleString()} |\n`
+    }
+    return summary + `\n`
+}
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import type { HistorySnapshot } from './history.js';
+import { crossedMilestone, detectMilestones, formatRecentMilestones, getNewMilestones, milestonesFromHistory, parseMilestoneRules, setMilestones } from './milestones.js';
+
+const RULES = parseMilestoneRules('downloadsTotal:pow10, stars:1000')
+
+function github(name: string, stars: number, timestamp = '2025-06-30T06:00:00.000Z'): MetricResult {
+    return { platform: 'GitHub', name, timestamp, metrics: { stars, forks: 0, watchers: 0, openIssues: 0 } }
+}
+
+function snapshot(name: string, day: string, stars: number): HistorySnapshot {
+    return { platform: 'GitHub', name, timestamp: `${day}T06:00:00.000Z`, metrics: { stars } }
+}
+
+describe('parseMilestoneRules', () => {
+    test('reads metric:step pairs', () => {
+        expect(RULES).toEqual([{ metric: 'downloadsTotal', step: 'pow10' }, { metric: 'stars', step: 1_000 }])
+        expect(parseMilestoneRules('')).toEqual([])
+    })
+
+    test('rejects malformed rules and steps', () => {
+        expect(() => parseMilestoneRules('stars')).toThrow('Invalid milestone "stars" (expected metric:step')
+        expect(() => parseMilestoneRules('stars:1:2')).toThrow('Invalid milestone "stars:1:2"')
+        expect(() => parseMilestoneRules('stars:0')).toThrow('Invalid milestone step "0" for stars (expected pow10 or a positive number)')
+        expect(() => parseMilestoneRules('stars:many')).toThrow('Invalid milestone step "many" for stars')
+    })
+})
+
+describe('crossedMilestone', () => {
+    test('finds the highest power of ten crossed', () => {
+        const rule = RULES[0]
+        expect(crossedMilestone(rule, 950, 1_200)).toBe(1_000)
+        expect(crossedMilestone(rule, 90, 12_000)).toBe(10_000)
+        expect(crossedMilestone(rule, 999_999, 1_000_000)).toBe(1_000_000)
+        expect(crossedMilestone(rule, 1_200, 5_000)).toBeUndefined()
+        expect(crossedMilestone(rule, 2, 9)).toBeUndefined()
+    })
+
+    test('finds the highest step crossed, and nothing when the value falls', () => {
+        const rule = RULES[1]
+        expect(crossedMilestone(rule, 1_950, 3_100)).toBe(3_000)
+        expect(crossedMilestone(rule, 2_000, 2_999)).toBeUndefined()
+        expect(crossedMilestone(rule, 3_100, 2_900)).toBeUndefined()
+    })
+})
+
+describe('detectMilestones', () => {
+    test('compares each source with its previous result, skipping new and failed sources', () => {
+        const failed: MetricResult = { platform: 'GitHub', name: 'failing', timestamp: '2025-06-30T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+        const previous = [github('grown', 980, '2025-06-29T06:00:00.000Z'), github('failing', 990, '2025-06-29T06:00:00.000Z')]
+        const milestones = detectMilestones(RULES, previous, [github('grown', 1_010), github('new', 5_000), failed])
+        expect(milestones).toEqual([{ platform: 'GitHub', name: 'grown', metric: 'stars', milestone: 1_000, previous: 980, current: 1_010, timestamp: '2025-06-30T06:00:00.000Z' }])
+    })
+
+    test('finds crossings between consecutive history snapshots since a time', () => {
+        const history = [snapshot('a', '2025-06-10', 2_900), snapshot('a', '2025-05-01', 1_500), snapshot('a', '2025-05-20', 2_100), snapshot('a', '2025-06-20', 3_050)]
+        expect(milestonesFromHistory(RULES, history, '2025-06-01T00:00:00.000Z').map(milestone => milestone.milestone)).toEqual([3_000])
+        expect(milestonesFromHistory(RULES, history, '2025-05-01T00:00:00.000Z').map(milestone => milestone.milestone)).toEqual([2_000, 3_000])
+    })
+})
+
+describe('recent milestones', () => {
+    afterEach(() => {
+        setMilestones([], [], [])
+    })
+
+    test('are left out without rules', () => {
+        setMilestones([], [github('a', 1_010)], [github('a', 980)])
+        expect(formatRecentMilestones([github('a', 1_010)])).toBe('')
+    })
+
+    test('list this run and the recent history of tracked sources once each, newest first', () => {
+        const metrics = [{ ...github('my-lib', 3_010), displayName: 'My Lib' }]
+        const history = [
+            snapshot('my-lib', '2025-06-01', 1_900),
+            snapshot('my-lib', '2025-06-10', 2_050),
+            // Dropped below 2,000 and recovered: the milestone keeps its first crossing
+            snapshot('my-lib', '2025-06-15', 1_990),
+            snapshot('my-lib', '2025-06-20', 2_020),
+            // Too long ago, or no longer tracked
+            snapshot('my-lib', '2025-04-01', 900),
+            snapshot('my-lib', '2025-04-10', 1_100),
+            snapshot('gone', '2025-06-01', 900),
+            snapshot('gone', '2025-06-10', 1_100),
+        ]
+
+        expect(setMilestones(RULES, metrics, [github('my-lib', 2_990, '2025-06-29T06:00:00.000Z')], history)).toEqual(getNewMilestones())
+        expect(getNewMilestones().map(milestone => milestone.milestone)).toEqual([3_000])
+        expect(formatRecentMilestones(metrics)).toBe(
+            '### Recent milestones\n\n'
+            + '| When | Source | Milestone | |\n'
+            + '| --- | --- | --- | --- |\n'
+            + '| 2025-06-30 | My Lib | 3,000 stars | ![My Lib: 3K stars](https://img.shields.io/badge/My%20Lib-3K%20stars-brightgreen) |\n'
+            + '| 2025-06-10 | My Lib | 2,000 stars | ![My Lib: 2K stars](https://img.shields.io/badge/My%20Lib-2K%20stars-brightgreen) |\n'
+            + '\n'
+        )
+    })
+
+    test('say so when nothing was crossed', () => {
+        setMilestones(RULES, [github('a', 1_010)], [github('a', 1_005)])
+        expect(formatRecentMilestones([github('a', 1_010)])).toBe('### Recent milestones\n\nNo milestones crossed recently.\n\n')
+    })
+})
@@ -0,0 +1,202 @@
+/**
+ * Milestones: round numbers such as every power of ten in total downloads or every 1,000 stars,
+ * detected by comparing each run with the previous one so crossings are reported when they happen
+ */
+
+import { metricValues, type MetricResult } from './collectors/types.js';
+import { type HistorySnapshot, historySourceKey } from './history.js';
+
+export interface MilestoneRule {
+    /** Numeric metric to watch, such as downloadsTotal or stars */
+    metric: string;
+    /** Every multiple of this step, or every power of ten */
+    step: number | 'pow10';
+}
+
+export interface Milestone {
+    platform: string;
+    name: string;
+    metric: string;
+    milestone: number;
+    previous: number;
+    current: number;
+    /** When the run that first saw the milestone crossed */
+    timestamp: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let recentMilestones: Milestone[] = []
+let newMilestones: Milestone[] = []
+let enabled = false
+
+/**
+ * Parse rules written as `metric:step`, such as `downloadsTotal:pow10,stars:1000`
+ */
+export function parseMilestoneRules(input: string): MilestoneRule[] {
+    return input.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const [metric, step, ...rest] = item.split(':').map(part => part.trim())
+        if (!metric || !step || rest.length > 0) {
+            throw new Error(`Invalid milestone "${item}" (expected metric:step, such as downloadsTotal:pow10 or stars:1000)`)
+        }
+        if (step.toLowerCase() === 'pow10') return { metric, step: 'pow10' }
+        const value = Number(step)
+        if (!Number.isFinite(value) || value <= 0) {
+            throw new Error(`Invalid milestone step "${step}" for ${metric} (expected pow10 or a positive number)`)
+        }
+        return { metric, step: value }
+    })
+}
+
+/**
+ * The highest milestone of a rule crossed going from one value to another, if any
+ */
+export function crossedMilestone(rule: MilestoneRule, previous: number, current: number): number | undefined {
+    if (!(current > previous)) return undefined
+    let milestone: number
+    if (rule.step === 'pow10') {
+        if (current < 10) return undefined
+        milestone = 10 ** Math.floor(Math.log10(current))
+        // Guard against floating point error just below a power of ten
+        if (milestone * 10 <= current) milestone *= 10
+    } else {
+        milestone = Math.floor(current / rule.step) * rule.step
+    }
+    return milestone > previous && milestone > 0 ? milestone : undefined
+}
+
+function numeric(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Milestones crossed between two sets of values for one source
+ */
+function compareValues(rules: MilestoneRule[], source: { platform: string; name: string }, before: Record<string, unknown>, after: Record<string, unknown>, timestamp: string): Milestone[] {
+    return rules.flatMap(rule => {
+        const previous = numeric(before[rule.metric])
+        const current = numeric(after[rule.metric])
+        if (previous === undefined || current === undefined) return []
+        const milestone = crossedMilestone(rule, previous, current)
+        return milestone === undefined ? [] : [{ platform: source.platform, name: source.name, metric: rule.metric, milestone, previous, current, timestamp }]
+    })
+}
+
+/**
+ * Milestones this run crossed, compared with the previous run's results.
+ * Sources without a previous result are skipped so a first run does not report everything at once.
+ */
+export function detectMilestones(rules: MilestoneRule[], previous: MetricResult[], metrics: MetricResult[]): Milestone[] {
+    const before = new Map(previous.filter(metric => !metric.error).map(metric => [historySourceKey(metric), metric]))
+    return metrics.flatMap(metric => {
+        const last = before.get(historySourceKey(metric))
+        if (metric.error || !last) return []
+        return compareValues(rules, metric, metricValues(last.metrics), metricValues(metric.metrics), metric.timestamp)
+    })
+}
+
+/**
+ * Milestones crossed between consecutive snapshots of the history
+ * @param since - Only crossings after this time are returned
+ */
+export function milestonesFromHistory(rules: MilestoneRule[], history: HistorySnapshot[], since: string): Milestone[] {
+    const bySource = new Map<string, HistorySnapshot[]>()
+    for (const snapshot of history) {
+        const key = historySourceKey(snapshot)
+        bySource.set(key, [...(bySource.get(key) || []), snapshot])
+    }
+
+    const milestones: Milestone[] = []
+    for (const snapshots of bySource.values()) {
+        snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        for (let i = 1; i < snapshots.length; i++) {
+            if (snapshots[i].timestamp < since) continue
+            milestones.push(...compareValues(rules, snapshots[i], snapshots[i - 1].metrics, snapshots[i].metrics, snapshots[i].timestamp))
+        }
+    }
+    return milestones
+}
+
+/**
+ * Work out this run's new milestones and the recent ones for the summary
+ * @param rules - The milestones to watch; none turns the section off
+ * @param metrics - This run's results
+ * @param previous - The previous run's results
+ * @param history - Snapshots from earlier runs, for milestones crossed in the last `recentDays` days by the sources in `metrics`
+ * @returns The milestones this run crossed
+ */
+export function setMilestones(rules: MilestoneRule[], metrics: MetricResult[], previous: MetricResult[], history: HistorySnapshot[] = [], recentDays = 30): Milestone[] {
+    enabled = rules.length > 0
+    newMilestones = detectMilestones(rules, previous, metrics)
+
+    const asOf = metrics.map(metric => metric.timestamp).sort().pop() || new Date().toISOString()
+    const since = new Date(new Date(asOf).getTime() - recentDays * DAY_MS).toISOString()
+    // A milestone seen by several runs (after a drop and recovery) is listed once, at its first crossing
+    const seen = new Set<string>()
+    const tracked = new Set(metrics.map(historySourceKey))
+    const trackedHistory = history.filter(snapshot => tracked.has(historySourceKey(snapshot)))
+    recentMilestones = [...milestonesFromHistory(rules, trackedHistory, since), ...newMilestones]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .filter(milestone => {
+            const key = `${milestone.platform}:${milestone.name}:${milestone.metric}:${milestone.milestone}`
+            if (seen.has(key)) return false
+            seen.add(key)
+            return true
+        })
+        .reverse()
+    return newMilestones
+}
+
+export function getNewMilestones() {
+    return newMilestones
+}
+
+const METRIC_LABELS: Record<string, string> = {
+    downloadsTotal: 'downloads',
+    downloadsMonthly: 'monthly downloads',
+    downloadsWeekly: 'weekly downloads',
+    stars: 'stars',
+    forks: 'forks',
+    watchers: 'watchers',
+    totalReleaseDownloads: 'release downloads',
+    viewsTotal: 'views',
+    clonesTotal: 'clones',
+}
+
+/**
+ * How a metric reads in the summary, such as "monthly downloads" for downloadsMonthly
+ */
+export function metricLabel(metric: string) {
+    return METRIC_LABELS[metric] || metric
+}
+
+// Compact form for badges: 1000000 becomes 1M
+function compact(value: number) {
+    return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+}
+
+function badge(label: string, message: string) {
+    const escape = (text: string) => encodeURIComponent(text.replace(/-/g, '--').replace(/_/g, '__'))
+    return `![${label}: ${message}](https://img.shields.io/badge/${escape(label)}-${escape(message)}-brightgreen)`
+}
+
+/**
+ * The "Recent milestones" section; empty when no milestones are configured
+ */
+export function formatRecentMilestones(metrics: MetricResult[]): string {
+    if (!enabled) return ''
+    const names = new Map(metrics.map(metric => [historySourceKey(metric), metric.displayName || metric.name]))
+
+    let summary = `### Recent milestones\n\n`
+    if (recentMilestones.length === 0) {
+        return summary + `No milestones crossed recently.\n\n`
+    }
+    summary += `| When | Source | Milestone | |\n`
+    summary += `| --- | --- | --- | --- |\n`
+    for (const milestone of recentMilestones) {
+        const name = names.get(historySourceKey(milestone)) || milestone.name
+        const label = metricLabel(milestone.metric)
+        summary += `| ${milestone.timestamp.slice(0, 10)} | ${name} | ${milestone.milestone.toLocaleString()} ${label} | ${badge(name, `${compact(milestone.milestone)} ${label}`)} |\n`
+    }
+    return summary + `\n`
+}
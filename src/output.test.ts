@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readOutputManifest, removeStaleOutputFiles, writeOutputFile } from './output.js';
+
+describe('removeStaleOutputFiles', () => {
+    const realCwd = process.cwd()
+    let workspace: string
+
+    beforeEach(() => {
+        workspace = mkdtempSync(join(tmpdir(), 'output-'))
+        process.chdir(workspace)
+        mkdirSync('charts/npm', { recursive: true })
+    })
+
+    afterEach(() => {
+        process.chdir(realCwd)
+        rmSync(workspace, { recursive: true, force: true })
+    })
+
+    test('deletes only the files the last run generated and this run did not', () => {
+        writeFileSync('charts/logo.png', 'hand-made')
+        writeFileSync('charts/npm/removed.svg', 'old chart')
+        writeFileSync('charts/.usage-statistics-files.json', JSON.stringify(['charts/npm/kept.svg', 'charts/npm/removed.svg', 'README.md', 'charts/../README.md']))
+        writeOutputFile('./charts/npm/kept.svg', 'chart')
+
+        expect(removeStaleOutputFiles('charts')).toEqual(['charts/npm/removed.svg'])
+        expect(existsSync('charts/npm/removed.svg')).toBe(false)
+        expect(readFileSync('charts/logo.png', 'utf8')).toBe('hand-made')
+        expect(readOutputManifest('charts')).toEqual(['charts/npm/kept.svg'])
+    })
+
+    test('deletes nothing without a manifest', () => {
+        writeFileSync('charts/npm/unknown.svg', 'chart')
+        expect(removeStaleOutputFiles('./charts')).toEqual([])
+        expect(existsSync('charts/npm/unknown.svg')).toBe(true)
+        expect(existsSync('charts/.usage-statistics-files.json')).toBe(true)
+    })
+})
@@ -0,0 +1,85 @@
+/**
+ * Generated file output (charts). In dry-run mode files are kept in memory instead of written,
+ * so a run can be previewed without touching the working tree.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { posix } from 'node:path';
+
+let dryRun = false
+const pendingFiles = new Map<string, Buffer>()
+const writtenFiles = new Set<string>()
+
+export function setDryRun(enabled: boolean) {
+    dryRun = enabled
+    pendingFiles.clear()
+}
+
+export function isDryRun() {
+    return dryRun
+}
+
+export function ensureOutputDir(path: string) {
+    if (!dryRun) {
+        mkdirSync(path, { recursive: true })
+    }
+}
+
+export function writeOutputFile(path: string, content: Buffer | string) {
+    if (dryRun) {
+        pendingFiles.set(posix.normalize(path), Buffer.from(content))
+    } else {
+        writeFileSync(path, content)
+        writtenFiles.add(posix.normalize(path))
+    }
+}
+
+// Lists the files the last run generated, so that only those are ever deleted and hand-written files are left alone
+const MANIFEST_FILE = '.usage-statistics-files.json'
+
+function manifestPath(dir: string) {
+    return posix.join(posix.normalize(dir), MANIFEST_FILE)
+}
+
+/**
+ * The files under a directory that the last real run generated, as recorded by removeStaleOutputFiles
+ * @returns Normalized paths, empty when there is no manifest yet
+ */
+export function readOutputManifest(dir: string): string[] {
+    const path = manifestPath(dir)
+    if (!existsSync(path)) return []
+    let files: unknown
+    try {
+        files = JSON.parse(readFileSync(path, 'utf8'))
+    } catch {
+        return []
+    }
+    const root = `${posix.normalize(dir)}/`
+    return Array.isArray(files)
+        ? files.filter((file): file is string => typeof file === 'string').map(file => posix.normalize(file)).filter(file => file.startsWith(root))
+        : []
+}
+
+/**
+ * Delete the files under a directory that the last run generated and this run did not, such as charts of
+ * sources that were removed, then record this run's files for the next one
+ * @returns The paths no longer generated, including any already gone from disk
+ */
+export function removeStaleOutputFiles(dir: string): string[] {
+    const root = posix.normalize(dir)
+    const stale = readOutputManifest(root).filter(path => !writtenFiles.has(path))
+    for (const path of stale) {
+        rmSync(path, { force: true })
+    }
+    const written = Array.from(writtenFiles).filter(path => path.startsWith(`${root}/`)).sort()
+    mkdirSync(root, { recursive: true })
+    writeFileSync(manifestPath(root), `${JSON.stringify(written, null, 2)}\n`)
+    return stale
+}
+
+/**
+ * Files a dry run would have written, keyed by normalized path
+ */
+export function getPendingFiles(): ReadonlyMap<string, Buffer> {
+    return pendingFiles
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import { evaluateFailurePolicy, formatCount, parseFailurePolicy } from './policy.js';
+
+function result(name: string, failed = false): MetricResult {
+    return {
+        platform: 'NPM',
+        name,
+        timestamp: '2025-06-30T00:00:00.000Z',
+        ...(failed ? { error: 'Failed after 4 attempts', errorKind: 'transient' as const } : { metrics: { downloadsTotal: 1, downloadsRange: [] } }),
+    }
+}
+
+// One failed source out of four
+const RESULTS = [result('a'), result('b', true), result('c'), result('d')]
+
+describe('parseFailurePolicy', () => {
+    test('reads never, any and percentages', () => {
+        expect(parseFailurePolicy('')).toEqual({ type: 'never' })
+        expect(parseFailurePolicy(' Never ')).toEqual({ type: 'never' })
+        expect(parseFailurePolicy('ANY')).toEqual({ type: 'any' })
+        expect(parseFailurePolicy('25%')).toEqual({ type: 'percent', threshold: 25 })
+        expect(parseFailurePolicy('12.5 %')).toEqual({ type: 'percent', threshold: 12.5 })
+    })
+
+    test('rejects anything else', () => {
+        for (const input of ['sometimes', '25', '150%', '-5%']) {
+            expect(() => parseFailurePolicy(input)).toThrow(`Invalid fail-on value "${input}"`)
+        }
+    })
+})
+
+describe('evaluateFailurePolicy', () => {
+    test('never fails the run, but still reports the failed sources', () => {
+        const report = evaluateFailurePolicy(RESULTS, { type: 'never' })
+        expect(report.violated).toBe(false)
+        expect(report.failed.map(metric => metric.name)).toEqual(['b'])
+        expect(report.message).toBe('1 of 4 sources failed (25%)')
+    })
+
+    test('any fails the run on a single failed source', () => {
+        const report = evaluateFailurePolicy(RESULTS, { type: 'any' })
+        expect(report.violated).toBe(true)
+        expect(report.message).toBe('1 of 4 sources failed (25%), exceeding fail-on policy "any": NPM:b')
+        expect(evaluateFailurePolicy([result('a')], { type: 'any' }).violated).toBe(false)
+    })
+
+    test('a percentage fails the run only when the failures exceed it', () => {
+        expect(evaluateFailurePolicy(RESULTS, { type: 'percent', threshold: 25 }).violated).toBe(false)
+        const report = evaluateFailurePolicy(RESULTS, { type: 'percent', threshold: 20 })
+        expect(report.violated).toBe(true)
+        expect(report.message).toBe('1 of 4 sources failed (25%), exceeding fail-on policy "more than 20%": NPM:b')
+    })
+
+    test('a run without sources passes', () => {
+        expect(evaluateFailurePolicy([], { type: 'percent', threshold: 0 })).toEqual({ failed: [], total: 0, violated: false, message: '0 of 0 sources failed (0%)' })
+    })
+})
+
+describe('formatCount', () => {
+    test('shows a failed source as missing rather than zero', () => {
+        expect(formatCount(result('a'), 1_234)).toBe('1,234')
+        expect(formatCount(result('a'), undefined)).toBe('0')
+        expect(formatCount(result('b', true), undefined)).toBe('—')
+    })
+})
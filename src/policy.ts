@@ -0,0 +1,70 @@
+/**
+ * Failure policy: decide whether sources that could not be collected should fail the run
+ */
+
+import type { MetricResult } from './collectors/types.js';
+
+export type FailurePolicy =
+    | { type: 'never' }
+    | { type: 'any' }
+    | { type: 'percent'; threshold: number };
+
+export interface FailureReport {
+    failed: MetricResult[];
+    total: number;
+    violated: boolean;
+    message: string;
+}
+
+/**
+ * Parse a `fail-on` value
+ * @param input - `never`, `any` or a percentage such as `25%`
+ * @returns The parsed policy; an empty input means `never`
+ */
+export function parseFailurePolicy(input: string): FailurePolicy {
+    const value = input.trim().toLowerCase()
+    if (!value || value === 'never') return { type: 'never' }
+    if (value === 'any') return { type: 'any' }
+
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*%$/)
+    if (match) {
+        const threshold = Number(match[1])
+        if (threshold >= 0 && threshold <= 100) {
+            return { type: 'percent', threshold }
+        }
+    }
+    throw new Error(`Invalid fail-on value "${input}" (expected never, any or a percentage such as 25%)`)
+}
+
+export function failedSourceKey(metric: MetricResult) {
+    return `${metric.platform}:${metric.name}`
+}
+
+/**
+ * A count for a summary table: a failed source's figures are missing, not zero, so they show as —
+ */
+export function formatCount(metric: MetricResult, value: number | null | undefined) {
+    return metric.error ? '—' : (value || 0).toLocaleString()
+}
+
+/**
+ * Check collected results against a failure policy
+ * @param metrics - Every collected result
+ * @param policy - The policy to apply
+ * @returns The failed sources and whether they exceed what the policy allows
+ */
+export function evaluateFailurePolicy(metrics: MetricResult[], policy: FailurePolicy): FailureReport {
+    const failed = metrics.filter(metric => metric.error)
+    const total = metrics.length
+    const percent = total ? (failed.length / total) * 100 : 0
+
+    let violated = false
+    if (policy.type === 'any') violated = failed.length > 0
+    if (policy.type === 'percent') violated = percent > policy.threshold
+
+    const allowed = policy.type === 'percent' ? `more than ${policy.threshold}%` : policy.type
+    const message = `${failed.length} of ${total} sources failed (${Math.round(percent * 10) / 10}%)`
+        + (violated ? `, exceeding fail-on policy "${allowed}": ${failed.map(failedSourceKey).join(', ')}` : '')
+
+    return { failed, total, violated, message }
+}
@@ -0,0 +1,173 @@
+/**
+ * Dry-run previews: a unified diff of the README metrics section and the chart files a run would change
+ */
+
+import * as core from '@actions/core';
+import { existsSync, readFileSync } from 'node:fs';
+import type { MetricResult } from './collectors/types.js';
+import { getPendingFiles, readOutputManifest, setDryRun } from './output.js';
+import { createSummary, renderRepositoryReadme } from './utils.js';
+
+export interface ChartChanges {
+    added: string[];
+    changed: string[];
+    removed: string[];
+    unchanged: number;
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+const METRICS_SECTION = /<!-- METRICS_START -->[\s\S]*<!-- METRICS_END -->/
+const CONTEXT_LINES = 3
+
+function metricsSection(readme: string) {
+    return readme.match(METRICS_SECTION)?.[0] ?? ''
+}
+
+// Line diff from a longest common subsequence table; README sections are small enough for O(n*m)
+function diffLines(before: string[], after: string[]): DiffLine[] {
+    const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+        }
+    }
+
+    const lines: DiffLine[] = []
+    let i = 0
+    let j = 0
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            lines.push({ type: ' ', text: before[i++] })
+            j++
+        } else if (j < after.length && (i >= before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+            lines.push({ type: '+', text: after[j++] })
+        } else {
+            lines.push({ type: '-', text: before[i++] })
+        }
+    }
+    return lines
+}
+
+/**
+ * Format the differences between two texts as a unified diff
+ * @returns The diff, or an empty string when the texts are identical
+ */
+export function unifiedDiff(before: string, after: string, fromFile: string, toFile: string): string {
+    const lines = diffLines(before.split('\n'), after.split('\n'))
+    const changedAt = lines.flatMap((line, index) => line.type === ' ' ? [] : [index])
+    if (changedAt.length === 0) return ''
+
+    // Group changes whose context overlaps into hunks
+    const hunks: { start: number; end: number }[] = []
+    for (const index of changedAt) {
+        const start = Math.max(0, index - CONTEXT_LINES)
+        const end = Math.min(lines.length, index + CONTEXT_LINES + 1)
+        const last = hunks[hunks.length - 1]
+        if (last && start <= last.end) {
+            last.end = end
+        } else {
+            hunks.push({ start, end })
+        }
+    }
+
+    let output = `--- ${fromFile}\n+++ ${toFile}\n`
+    for (const hunk of hunks) {
+        const before = lines.slice(0, hunk.start)
+        const oldStart = before.filter(line => line.type !== '+').length + 1
+        const newStart = before.filter(line => line.type !== '-').length + 1
+        const body = lines.slice(hunk.start, hunk.end)
+        const oldCount = body.filter(line => line.type !== '+').length
+        const newCount = body.filter(line => line.type !== '-').length
+        output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`
+        output += body.map(line => `${line.type}${line.text}\n`).join('')
+    }
+    return output
+}
+
+/**
+ * Unified diff of the README metrics section between the current and updated README
+ */
+export function diffReadmeSection(currentReadme: string, updatedReadme: string, readmePath: string): string {
+    return unifiedDiff(metricsSection(currentReadme), metricsSection(updatedReadme), `a/${readmePath}`, `b/${readmePath}`)
+}
+
+/**
+ * Compare the charts a dry run rendered in memory with those on disk
+ * @param chartsDir - The directory charts are written to
+ */
+export async function compareCharts(chartsDir = 'charts'): Promise<ChartChanges> {
+    const pending = getPendingFiles()
+    const changes: ChartChanges = { added: [], changed: [], removed: [], unchanged: 0 }
+
+    for (const [path, content] of pending) {
+        if (!existsSync(path)) {
+            changes.added.push(path)
+        } else if (!readFileSync(path).equals(content)) {
+            changes.changed.push(path)
+        } else {
+            changes.unchanged++
+        }
+    }
+    // Only charts an earlier run generated are removed; other files in the directory are left alone
+    for (const path of readOutputManifest(chartsDir)) {
+        if (!pending.has(path) && existsSync(path)) changes.removed.push(path)
+    }
+
+    changes.added.sort()
+    changes.changed.sort()
+    changes.removed.sort()
+    return changes
+}
+
+/**
+ * Render a dry-run report as markdown
+ */
+export function formatPreview(readmeDiff: string | undefined, charts: ChartChanges): string {
+    let output = `## Usage Statistics dry run\n\n`
+
+    if (readmeDiff !== undefined) {
+        output += `### README\n\n`
+        output += readmeDiff ? `\`\`\`diff\n${readmeDiff}\`\`\`\n\n` : `No changes to the metrics section.\n\n`
+    }
+
+    output += `### Charts\n\n`
+    const rows = [
+        ...charts.added.map(path => `| added | \`${path}\` |`),
+        ...charts.changed.map(path => `| changed | \`${path}\` |`),
+        ...charts.removed.map(path => `| removed (no longer generated) | \`${path}\` |`),
+    ]
+    if (rows.length > 0) {
+        output += `| Status | File |\n| --- | --- |\n${rows.join('\n')}\n\n`
+    }
+    output += `${charts.added.length} added, ${charts.changed.length} changed, ${charts.removed.length} removed, ${charts.unchanged} unchanged.\n`
+    return output
+}
+
+/**
+ * Render the README and charts in memory and report what a real run would change
+ * @param metrics - The collected results
+ * @param readmePath - The README whose metrics section to diff, or undefined when the README is not updated
+ * @returns The dry-run report as markdown
+ */
+export async function previewRun(metrics: MetricResult[], readmePath?: string): Promise<string> {
+    setDryRun(true)
+
+    let readmeDiff: string | undefined
+    if (readmePath) {
+        const { currentReadme, updatedReadme } = await renderRepositoryReadme(metrics, readmePath)
+        readmeDiff = diffReadmeSection(currentReadme, updatedReadme, readmePath)
+    } else {
+        await createSummary(metrics)
+    }
+
+    return formatPreview(readmeDiff, await compareCharts())
+}
+
+/**
+ * Append a report to the Actions job summary, when running inside a workflow
+ */
+export async function writeJobSummary(markdown: string) {
+    if (!process.env.GITHUB_STEP_SUMMARY) return
+    await core.summary.addRaw(markdown).write()
+}
@@ -0,0 +1,82 @@
+/**
+ * Results of the previous run, which collectors reuse to fetch only what changed since
+ */
+
+import { existsSync } from 'fs';
+import { getHttpMode, getRecordedPreviousResults, recordPreviousResults } from './clients/recorder.js';
+import { metricValues, type MetricResult, type Metrics } from './collectors/types.js';
+import { readStats } from './stats.js';
+
+let previousResults = new Map<string, MetricResult>()
+let fullRefresh = false
+
+function resultKey(platform: string, name: string) {
+    return `${platform}:${name}`
+}
+
+/**
+ * Make the previous run's results available to the collectors
+ * @param results - Results from the previous stats file; failed sources only pass on the metrics they retained
+ * @param options.fullRefresh - Fetch every series again instead of reusing previous results where possible
+ */
+export function setPreviousResults(results: MetricResult[], options: { fullRefresh?: boolean } = {}) {
+    previousResults = new Map(results.flatMap(result => {
+        if (!result.error) return [[resultKey(result.platform, result.name), result]]
+        return result.retained ? [[resultKey(result.platform, result.name), { ...result, metrics: result.retained }]] : []
+    }))
+    fullRefresh = options.fullRefresh ?? false
+}
+
+/**
+ * The previous result for a source, or undefined when there is none.
+ * Results are keyed by platform, so a collector may read its own result as its platform's metrics.
+ */
+export function getPreviousResult<M extends object = Metrics>(platform: string, name: string): MetricResult<M> | undefined {
+    return previousResults.get(resultKey(platform, name)) as MetricResult<M> | undefined
+}
+
+/**
+ * The given metrics of a source's previous result, for a failed result to keep as `retained`
+ * @returns undefined when the previous result has none of them
+ */
+export function retainPreviousMetrics<M extends object>(platform: string, name: string, keys: (keyof M & string)[]): Partial<M> | undefined {
+    const previous = previousResults.get(resultKey(platform, name))?.metrics
+    if (!previous) return undefined
+    const metrics = metricValues(previous)
+    const retained = Object.fromEntries(keys.filter(key => metrics[key] !== undefined).map(key => [key, metrics[key]]))
+    return Object.keys(retained).length > 0 ? retained as Partial<M> : undefined
+}
+
+/**
+ * Whether series that can be fetched again in full should ignore the previous results.
+ * Data the upstream API no longer serves (such as GitHub traffic older than 14 days) is kept regardless.
+ */
+export function isFullRefresh() {
+    return fullRefresh
+}
+
+/**
+ * Load the previous run's stats file, if there is one. Recordings save the results they start from
+ * with their fixtures, and replays use those instead of the stats file, so they request the same URLs.
+ * @param statsPath - The stats file the previous run wrote
+ * @param options.fullRefresh - Fetch every series again instead of reusing previous results where possible
+ */
+export async function loadPreviousResults(statsPath: string, options: { fullRefresh?: boolean } = {}) {
+    if (getHttpMode() === 'replay') {
+        const recorded = getRecordedPreviousResults()
+        setPreviousResults(recorded.results, { fullRefresh: recorded.fullRefresh })
+        return recorded.results
+    }
+
+    let results: MetricResult[] = []
+    if (statsPath && existsSync(statsPath)) {
+        try {
+            results = await readStats(statsPath)
+        } catch (error) {
+            console.warn(`Ignoring previous results in ${statsPath}:`, error)
+        }
+    }
+    setPreviousResults(results, options)
+    await recordPreviousResults(results, options.fullRefresh ?? false)
+    return results
+}
@@ -0,0 +1,153 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureHttp } from './clients/http.js';
+import { publishFiles } from './publish.js';
+
+interface ApiRequest {
+    method: string;
+    path: string;
+    body?: any;
+}
+
+// A fake GitHub API for owner/repo: branch heads, one tree per commit, and the open pull requests
+let branches: Record<string, string>
+let trees: Record<string, { path: string; type: string; sha: string }[]>
+let pulls: { html_url: string }[]
+let requests: ApiRequest[]
+
+function json(body: unknown, status = 200) {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+}
+
+async function fakeGitHub(input: string | URL | Request, init?: RequestInit) {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+    const method = init?.method || 'GET'
+    const path = decodeURIComponent(url.pathname).replace('/repos/owner/repo', '')
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    requests.push({ method, path, body })
+
+    const ref = path.match(/^\/git\/ref\/heads\/(.+)$/)
+    if (path === '') return json({ default_branch: 'main' })
+    if (ref) return branches[ref[1]] ? json({ object: { sha: branches[ref[1]] } }) : json({ message: 'Not Found' }, 404)
+    if (method === 'POST' && path === '/git/refs') return json({})
+    const commit = path.match(/^\/git\/commits\/(.+)$/)
+    if (commit) return json({ sha: commit[1], tree: { sha: `tree-of-${commit[1]}` } })
+    const tree = path.match(/^\/git\/trees\/tree-of-(.+)$/)
+    if (tree) return json({ tree: trees[tree[1]] })
+    if (method === 'POST' && path === '/git/blobs') return json({ sha: `blob-${requests.length}` })
+    if (method === 'POST' && path === '/git/trees') return json({ sha: 'new-tree' })
+    if (method === 'POST' && path === '/git/commits') return json({ sha: 'new-commit' })
+    if (method === 'PATCH') return json({})
+    if (method === 'GET' && path === '/pulls') return json(pulls)
+    if (method === 'POST' && path === '/pulls') return json({ html_url: 'https://github.com/owner/repo/pull/7' })
+    return json({ message: `Unexpected ${method} ${path}` }, 500)
+}
+
+function blobSha(content: string) {
+    const buffer = Buffer.from(content)
+    return createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex')
+}
+
+const OPTIONS = { token: 'token', repository: 'owner/repo', message: 'Update usage statistics', paths: ['README.md', 'charts'] }
+
+describe('publishFiles', () => {
+    const realFetch = globalThis.fetch
+    const realCwd = process.cwd()
+    let workspace: string
+
+    beforeAll(() => {
+        configureHttp({ retries: 0 })
+    })
+
+    beforeEach(() => {
+        workspace = mkdtempSync(join(tmpdir(), 'publish-'))
+        process.chdir(workspace)
+        mkdirSync('charts/npm', { recursive: true })
+        writeFileSync('README.md', 'unchanged')
+        writeFileSync('charts/npm/a.svg', 'new chart')
+        globalThis.fetch = fakeGitHub as typeof fetch
+        pulls = []
+        requests = []
+    })
+
+    afterEach(() => {
+        process.chdir(realCwd)
+        rmSync(workspace, { recursive: true, force: true })
+    })
+
+    afterAll(() => {
+        globalThis.fetch = realFetch
+        configureHttp({ retries: 3 })
+    })
+
+    test('commits changed files and deletes only the generated files no longer written', async () => {
+        branches = { main: 'head' }
+        trees = {
+            head: [
+                { path: 'README.md', type: 'blob', sha: blobSha('unchanged') },
+                { path: 'charts/npm/a.svg', type: 'blob', sha: blobSha('old chart') },
+                { path: 'charts/npm/old.svg', type: 'blob', sha: blobSha('removed source') },
+                { path: 'charts/logo.png', type: 'blob', sha: blobSha('hand-made') },
+            ],
+        }
+
+        const result = await publishFiles({ ...OPTIONS, mode: 'commit', branch: 'main', removed: ['charts/npm/old.svg', 'charts/npm/never-published.svg'] })
+
+        expect(result).toEqual({ published: true, branch: 'main', commitSha: 'new-commit', pullRequestUrl: undefined })
+        const tree = requests.find(request => request.method === 'POST' && request.path === '/git/trees')!.body
+        expect(tree.base_tree).toBe('tree-of-head')
+        expect(tree.tree.map((entry: { path: string; sha: string | null }) => [entry.path, entry.sha === null ? 'deleted' : 'uploaded'])).toEqual([
+            ['charts/npm/a.svg', 'uploaded'],
+            ['charts/npm/old.svg', 'deleted'],
+        ])
+        expect(requests.find(request => request.method === 'POST' && request.path === '/git/commits')!.body.parents).toEqual(['head'])
+        expect(requests.find(request => request.method === 'PATCH')).toEqual({ method: 'PATCH', path: '/git/refs/heads/main', body: { sha: 'new-commit', force: false } })
+    })
+
+    test('makes no commit when nothing changed', async () => {
+        writeFileSync('charts/npm/a.svg', 'old chart')
+        branches = { main: 'head' }
+        trees = { head: [{ path: 'README.md', type: 'blob', sha: blobSha('unchanged') }, { path: 'charts/npm/a.svg', type: 'blob', sha: blobSha('old chart') }] }
+
+        expect(await publishFiles({ ...OPTIONS, mode: 'commit', branch: 'main' })).toEqual({ published: false, branch: 'main', commitSha: undefined, pullRequestUrl: undefined })
+        expect(requests.some(request => request.method !== 'GET')).toBe(false)
+    })
+
+    test('resets the pull request branch onto the base branch before committing', async () => {
+        branches = { main: 'base', 'usage-statistics': 'stale' }
+        trees = { base: [{ path: 'README.md', type: 'blob', sha: blobSha('unchanged') }] }
+
+        const result = await publishFiles({ ...OPTIONS, mode: 'pull-request' })
+
+        expect(result).toEqual({ published: true, branch: 'usage-statistics', commitSha: 'new-commit', pullRequestUrl: 'https://github.com/owner/repo/pull/7' })
+        // The commit is made on top of the base branch, not the branch's own earlier commits
+        expect(requests.find(request => request.method === 'POST' && request.path === '/git/commits')!.body.parents).toEqual(['base'])
+        expect(requests.find(request => request.method === 'PATCH')).toEqual({ method: 'PATCH', path: '/git/refs/heads/usage-statistics', body: { sha: 'new-commit', force: true } })
+        expect(requests.find(request => request.method === 'POST' && request.path === '/pulls')!.body).toMatchObject({ head: 'usage-statistics', base: 'main' })
+    })
+
+    test('resets a pull request branch with nothing to commit, and creates one on first use', async () => {
+        writeFileSync('charts/npm/a.svg', 'old chart')
+        branches = { main: 'base', 'usage-statistics': 'stale' }
+        trees = { base: [{ path: 'README.md', type: 'blob', sha: blobSha('unchanged') }, { path: 'charts/npm/a.svg', type: 'blob', sha: blobSha('old chart') }] }
+        pulls = [{ html_url: 'https://github.com/owner/repo/pull/3' }]
+
+        expect(await publishFiles({ ...OPTIONS, mode: 'pull-request' })).toEqual({ published: false, branch: 'usage-statistics', commitSha: undefined, pullRequestUrl: 'https://github.com/owner/repo/pull/3' })
+        expect(requests.find(request => request.method === 'PATCH')).toEqual({ method: 'PATCH', path: '/git/refs/heads/usage-statistics', body: { sha: 'base', force: true } })
+
+        requests = []
+        branches = { main: 'base' }
+        await publishFiles({ ...OPTIONS, mode: 'pull-request' })
+        expect(requests.find(request => request.method === 'POST' && request.path === '/git/refs')!.body).toEqual({ ref: 'refs/heads/usage-statistics', sha: 'base' })
+        // A new branch already points at the base branch
+        expect(requests.some(request => request.method === 'PATCH')).toBe(false)
+    })
+
+    test('refuses a pull request from the base branch into itself', async () => {
+        branches = { main: 'base' }
+        await expect(publishFiles({ ...OPTIONS, mode: 'pull-request', branch: 'main' })).rejects.toThrow('Cannot open a pull request from main into itself')
+    })
+})
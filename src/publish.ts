@@ -0,0 +1,188 @@
+/**
+ * Publish generated files (README, stats JSON, charts) back to the repository through the GitHub API,
+ * either as a commit on a branch or as a pull request
+ */
+
+import * as core from '@actions/core';
+import { Octokit } from '@octokit/rest';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { httpFetch } from './clients/http.js';
+
+export type PublishMode = 'none' | 'commit' | 'pull-request';
+
+export interface PublishOptions {
+    mode: PublishMode;
+    token: string;
+    /** owner/repo, defaults to $GITHUB_REPOSITORY */
+    repository: string;
+    /**
+     * Branch to commit to; defaults to the branch the workflow runs on for commits (the head branch on
+     * pull_request events) and `usage-statistics` for pull requests
+     */
+    branch?: string;
+    /** Branch the pull request targets; defaults to the repository's default branch */
+    baseBranch?: string;
+    message: string;
+    /** Files and directories to publish, relative to the workspace */
+    paths: string[];
+    /** Generated files to delete from the branch, such as charts no longer generated */
+    removed?: string[];
+}
+
+export interface PublishResult {
+    published: boolean;
+    branch: string;
+    commitSha?: string;
+    pullRequestUrl?: string;
+}
+
+const PUBLISH_MODES: PublishMode[] = ['none', 'commit', 'pull-request']
+const DEFAULT_PULL_REQUEST_BRANCH = 'usage-statistics'
+
+export function parsePublishMode(input: string): PublishMode {
+    const mode = (input.trim().toLowerCase() || 'none') as PublishMode
+    if (!PUBLISH_MODES.includes(mode)) {
+        throw new Error(`Invalid publish value "${input}" (expected ${PUBLISH_MODES.join(', ')})`)
+    }
+    return mode
+}
+
+async function listFiles(path: string): Promise<string[]> {
+    if (!existsSync(path)) return []
+    const entries = await readdir(path, { withFileTypes: true }).catch(() => null)
+    if (!entries) return [path]
+
+    const files: string[] = []
+    for (const entry of entries) {
+        const entryPath = join(path, entry.name)
+        files.push(...(entry.isDirectory() ? await listFiles(entryPath) : [entryPath]))
+    }
+    return files
+}
+
+// Same hash git uses for blobs, so unchanged files can be spotted without uploading them
+function gitBlobSha(content: Buffer) {
+    return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex')
+}
+
+function toRepoPath(file: string) {
+    return relative(process.cwd(), file).split(sep).join('/')
+}
+
+/**
+ * The branch the workflow runs on. Pull request events run on a merge ref (`N/merge`),
+ * so their head branch is used instead, and tag or unknown refs fall back to the base branch.
+ */
+function workflowBranch(baseBranch: string) {
+    if (process.env.GITHUB_HEAD_REF) return process.env.GITHUB_HEAD_REF
+    if (process.env.GITHUB_REF?.startsWith('refs/heads/') && process.env.GITHUB_REF_NAME) return process.env.GITHUB_REF_NAME
+    return baseBranch
+}
+
+/**
+ * Commit the generated files, skipping the commit when none of them changed
+ * @returns Whether a commit was made, and the commit and pull request it ended up in
+ */
+export async function publishFiles(options: PublishOptions): Promise<PublishResult> {
+    const [owner, repo] = options.repository.split('/')
+    if (!owner || !repo) {
+        throw new Error(`Cannot publish: repository "${options.repository}" is not in owner/repo format`)
+    }
+    if (!options.token) {
+        throw new Error('Cannot publish: github-token is empty')
+    }
+
+    const octokit = new Octokit({
+        auth: options.token,
+        ...(process.env.GITHUB_API_URL ? { baseUrl: process.env.GITHUB_API_URL } : {}),
+        request: { fetch: httpFetch },
+    })
+    const { data: repository } = await octokit.rest.repos.get({ owner, repo })
+    const baseBranch = options.baseBranch || repository.default_branch
+    const branch = options.branch
+        || (options.mode === 'pull-request' ? DEFAULT_PULL_REQUEST_BRANCH : workflowBranch(baseBranch))
+    if (options.mode === 'pull-request' && branch === baseBranch) {
+        throw new Error(`Cannot open a pull request from ${branch} into itself; set publish-branch to another branch`)
+    }
+
+    // A pull request branch is created from the base branch on first use. Afterwards each run starts it
+    // again from the base branch's head, so the pull request never goes stale or conflicts.
+    let headSha: string
+    let branchSha: string | undefined
+    try {
+        const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` })
+        branchSha = ref.object.sha
+    } catch (error) {
+        if ((error as { status?: number }).status !== 404 || options.mode !== 'pull-request') throw error
+    }
+    if (options.mode === 'pull-request') {
+        const { data: baseRef } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` })
+        headSha = baseRef.object.sha
+        if (branchSha === undefined) {
+            await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: headSha })
+            core.info(`Created branch ${branch} from ${baseBranch}`)
+            branchSha = headSha
+        }
+    } else {
+        headSha = branchSha!
+    }
+
+    const { data: headCommit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: headSha })
+    const { data: headTree } = await octokit.rest.git.getTree({ owner, repo, tree_sha: headCommit.tree.sha, recursive: 'true' })
+    const existing = new Map(headTree.tree.map(entry => [entry.path, entry.sha]))
+
+    const files = (await Promise.all(options.paths.map(listFiles))).flat()
+    const changed: { path: string; content: Buffer }[] = []
+    for (const file of files) {
+        const content = await readFile(file)
+        const path = toRepoPath(file)
+        if (existing.get(path) !== gitBlobSha(content)) {
+            changed.push({ path, content })
+        }
+    }
+
+    // Only files the action generated are deleted, and only those the branch still has
+    const local = new Set(files.map(toRepoPath))
+    const removed = (options.removed || []).map(toRepoPath).filter(path => existing.has(path) && !local.has(path))
+
+    let commitSha: string | undefined
+    if (changed.length === 0 && removed.length === 0) {
+        core.info(`No changes to publish on ${branch}`)
+    } else {
+        const tree = [
+            ...await Promise.all(changed.map(async file => {
+                const { data: blob } = await octokit.rest.git.createBlob({ owner, repo, content: file.content.toString('base64'), encoding: 'base64' })
+                return { path: file.path, mode: '100644' as const, type: 'blob' as const, sha: blob.sha }
+            })),
+            ...removed.map(path => ({ path, mode: '100644' as const, type: 'blob' as const, sha: null })),
+        ]
+        const { data: newTree } = await octokit.rest.git.createTree({ owner, repo, base_tree: headCommit.tree.sha, tree })
+        const { data: commit } = await octokit.rest.git.createCommit({ owner, repo, message: options.message, tree: newTree.sha, parents: [headSha] })
+        commitSha = commit.sha
+        core.info(`Committed ${changed.length} changed and ${removed.length} removed files to ${branch}: ${[...changed.map(file => file.path), ...removed].join(', ')}`)
+    }
+
+    // Resetting a pull request branch onto the base branch is not a fast-forward
+    const nextSha = commitSha ?? headSha
+    if (nextSha !== branchSha) {
+        await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: nextSha, force: options.mode === 'pull-request' })
+    }
+
+    let pullRequestUrl: string | undefined
+    if (options.mode === 'pull-request') {
+        const { data: pulls } = await octokit.rest.pulls.list({ owner, repo, state: 'open', head: `${owner}:${branch}`, base: baseBranch })
+        if (pulls.length > 0) {
+            pullRequestUrl = pulls[0].html_url
+            if (commitSha) core.info(`Updated pull request ${pullRequestUrl}`)
+        } else if (commitSha) {
+            const { data: pull } = await octokit.rest.pulls.create({ owner, repo, head: branch, base: baseBranch, title: options.message, body: 'Automated update of usage statistics, README and charts.' })
+            pullRequestUrl = pull.html_url
+            core.info(`Opened pull request ${pullRequestUrl}`)
+        }
+    }
+
+    return { published: commitSha !== undefined, branch, commitSha, pullRequestUrl }
+}
@@ -0,0 +1,158 @@
+/**
+ * Platform registry: each platform registers its collector, summary formatter,
+ * details renderer and chart generator once
+ */
+
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { collectGithub, collectGithubBatch } from './collectors/github.js';
+import { collectNpm, collectNpmBatch } from './collectors/npm.js';
+import { collectPowerShell, collectPowerShellBatch } from './collectors/powershell.js';
+import { collectPypi, collectPypiBatch } from './collectors/pypi.js';
+import type { MetricResult, PlatformDefinition, SourceConfig } from './collectors/types.js';
+import { addRepoCharts, addRepoDetails, formatGitHubSummary } from './summaries/github.js';
+import { addNpmCharts, addNpmDetails, formatNpmSummary } from './summaries/npm.js';
+import { addPowerShellCharts, addPowerShellDetails, formatPowerShellSummary } from './summaries/powershell.js';
+import { addPypiCharts, addPypiDetails, formatPypiSummary } from './summaries/pypi.js';
+
+const platforms = new Map<string, PlatformDefinition>()
+
+/**
+ * Register a platform
+ * @param definition - The platform's collector and renderers
+ * @throws Error if the definition is malformed or the platform name is already taken
+ */
+export function registerPlatform(definition: PlatformDefinition) {
+    if (!definition || typeof definition.platform !== 'string' || !definition.platform.trim()) {
+        throw new Error('Platform definition must have a non-empty "platform" name')
+    }
+    if (typeof definition.collect?.collect !== 'function') {
+        throw new Error(`Platform ${definition.platform} must provide a collect.collect(source, options) function`)
+    }
+    for (const name of [definition.platform, ...(definition.aliases || [])]) {
+        if (getPlatform(name)) {
+            throw new Error(`Platform ${name} is already registered`)
+        }
+    }
+    platforms.set(definition.platform, definition)
+}
+
+/**
+ * Look up a platform by its name or one of its aliases, case-insensitively
+ */
+export function getPlatform(name: string): PlatformDefinition | undefined {
+    const needle = name.trim().toLowerCase()
+    for (const definition of platforms.values()) {
+        const names = [definition.platform, ...(definition.aliases || [])]
+        if (names.some(candidate => candidate.toLowerCase() === needle)) {
+            return definition
+        }
+    }
+    return undefined
+}
+
+export function getPlatforms(): PlatformDefinition[] {
+    return Array.from(platforms.values())
+}
+
+/**
+ * Whether a value from a custom module looks like a platform definition: a platform name and a collect function
+ */
+function isPlatformDefinition(value: unknown): value is PlatformDefinition {
+    if (typeof value !== 'object' || value === null) return false
+    const { platform, collect } = value as { platform?: unknown; collect?: unknown }
+    return typeof platform === 'string' && typeof collect === 'object' && collect !== null
+        && typeof (collect as { collect?: unknown }).collect === 'function'
+}
+
+/**
+ * Import local modules that register custom platforms.
+ * A module may default-export a platform definition (or a list of them),
+ * or export a `register(registerPlatform)` function.
+ * @param modulePaths - Paths relative to the working directory
+ */
+export async function loadCustomPlatforms(modulePaths: string[]) {
+    for (const modulePath of modulePaths) {
+        const moduleUrl = pathToFileURL(resolve(modulePath)).href
+        let loaded: { register?: unknown; default?: unknown }
+        try {
+            loaded = await import(moduleUrl)
+        } catch (error) {
+            throw new Error(`Could not load custom collector ${modulePath}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (typeof loaded.register === 'function') {
+            await loaded.register(registerPlatform)
+        } else if (loaded.default) {
+            const definitions: unknown[] = Array.isArray(loaded.default) ? loaded.default : [loaded.default]
+            for (const definition of definitions) {
+                if (!isPlatformDefinition(definition)) {
+                    throw new Error(`Custom collector ${modulePath} exports a definition without a "platform" name and a collect.collect(source, options) function`)
+                }
+                registerPlatform(definition)
+            }
+        } else {
+            throw new Error(`Custom collector ${modulePath} must default-export a platform definition or export a register() function`)
+        }
+    }
+}
+
+/**
+ * Collect metrics for every source of a single platform
+ */
+export async function collectPlatform(definition: PlatformDefinition, sources: SourceConfig[]): Promise<MetricResult[]> {
+    if (definition.batched && definition.collect.collectBatch) {
+        return definition.collect.collectBatch(sources)
+    }
+    return Promise.all(sources.map(source => definition.collect.collect(source.name, source.options)))
+}
+
+registerPlatform({
+    platform: 'NPM',
+    language: 'JavaScript/TypeScript',
+    collect: { collect: collectNpm, collectBatch: collectNpmBatch },
+    batched: true,
+    formatSummary: formatNpmSummary,
+    addDetails: addNpmDetails,
+    addCharts: addNpmCharts,
+})
+
+registerPlatform({
+    platform: 'GitHub',
+    collect: { collect: collectGithub, collectBatch: collectGithubBatch },
+    batched: true,
+    options: {
+        traffic: 'boolean',
+        releases: 'boolean',
+    },
+    formatSummary: formatGitHubSummary,
+    addDetails: addRepoDetails,
+    addCharts: addRepoCharts,
+})
+
+registerPlatform({
+    platform: 'PyPI',
+    language: 'Python',
+    collect: { collect: collectPypi, collectBatch: collectPypiBatch },
+    batched: true,
+    options: {
+        mirrors: 'boolean',
+        keepUnknown: 'boolean',
+        pythonVersions: 'string',
+    },
+    formatSummary: formatPypiSummary,
+    addDetails: addPypiDetails,
+    addCharts: addPypiCharts,
+})
+
+registerPlatform({
+    platform: 'PowerShell',
+    collect: { collect: collectPowerShell, collectBatch: collectPowerShellBatch },
+    batched: true,
+    options: {
+        prerelease: 'boolean',
+    },
+    formatSummary: formatPowerShellSummary,
+    addDetails: addPowerShellDetails,
+    addCharts: addPowerShellCharts,
+})
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import { configureReleaseImpact, findReleaseImpacts, findReleases, formatReleaseImpact, measureImpact } from './releases.js';
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+// 2025-05-01 to 2025-06-29: 10 downloads a day, 30 from June
+const DAYS = Array.from({ length: 60 }, (_, index) => addDays('2025-05-01', index))
+const RANGE = DAYS.map(day => ({ day, downloads: day < '2025-06-01' ? 10 : 30 }))
+
+function npm(versionReleases: { day: string; version: string }[], group?: string): MetricResult {
+    return {
+        platform: 'NPM',
+        name: 'example',
+        timestamp: '2025-06-30T06:00:00.000Z',
+        ...(group ? { group } : {}),
+        metrics: { downloadsTotal: 1_000, downloadsRange: RANGE, versionReleases },
+    }
+}
+
+function github(tags: { day: string; tagName: string }[], group?: string): MetricResult {
+    return {
+        platform: 'GitHub',
+        name: 'owner/example',
+        displayName: 'Example repo',
+        timestamp: '2025-06-30T06:00:00.000Z',
+        ...(group ? { group } : {}),
+        metrics: { stars: 1, downloadsRange: tags.map(tag => ({ ...tag, downloads: 5 })) },
+    }
+}
+
+describe('findReleases', () => {
+    test('reads GitHub tags, npm versions and the latest PyPI release', () => {
+        expect(findReleases(github([{ day: '2025-06-01T12:00:00Z', tagName: 'v1.1.0' }]))).toEqual([{ platform: 'GitHub', name: 'owner/example', release: 'v1.1.0', day: '2025-06-01' }])
+        expect(findReleases(npm([{ day: '2025-06-01', version: '1.1.0' }])).map(release => release.release)).toEqual(['1.1.0'])
+        const pypi: MetricResult = { platform: 'PyPI', name: 'example', timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal: 1, version: '2.0.0', latestReleaseDate: '2025-06-10T08:00:00Z' } }
+        expect(findReleases(pypi)).toEqual([{ platform: 'PyPI', name: 'example', release: '2.0.0', day: '2025-06-10' }])
+    })
+
+    test('falls back to the npm versions downloaded last week in older stats files', () => {
+        const older: MetricResult = { platform: 'NPM', name: 'example', timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal: 1, downloadsRange: [], versionDownloads: [{ version: '1.1.0', downloads: 5, day: '2025-06-01' }] } }
+        expect(findReleases(older).map(release => release.release)).toEqual(['1.1.0'])
+    })
+})
+
+describe('measureImpact', () => {
+    const series = new Map(RANGE.map(entry => [entry.day, entry.downloads]))
+
+    test('compares the days before a release with the days from it', () => {
+        expect(measureImpact(series, DAYS[0], DAYS[59], '2025-06-01', 7)).toEqual({ before: 70, after: 210, change: 2 })
+    })
+
+    test('needs both windows inside the series', () => {
+        // The first and last releases the series can measure with a week on each side
+        expect(measureImpact(series, DAYS[0], DAYS[59], '2025-05-08', 7)).toBeDefined()
+        expect(measureImpact(series, DAYS[0], DAYS[59], '2025-05-07', 7)).toBeUndefined()
+        expect(measureImpact(series, DAYS[0], DAYS[59], '2025-06-23', 7)).toBeDefined()
+        expect(measureImpact(series, DAYS[0], DAYS[59], '2025-06-24', 7)).toBeUndefined()
+    })
+
+    test('has no change without downloads before', () => {
+        expect(measureImpact(new Map([['2025-06-02', 5]]), '2025-06-01', '2025-06-02', '2025-06-02', 1)).toEqual({ before: 0, after: 5, change: undefined })
+    })
+})
+
+describe('findReleaseImpacts', () => {
+    afterEach(() => {
+        configureReleaseImpact({ windowDays: 0 })
+    })
+
+    test('is off without a window', () => {
+        expect(findReleaseImpacts([npm([{ day: '2025-06-01', version: '1.1.0' }])])).toEqual([])
+    })
+
+    test('measures releases of the same group on the series, once per day, newest first', () => {
+        configureReleaseImpact({ windowDays: 7 })
+        const metrics = [
+            npm([{ day: '2025-05-02', version: '1.0.0' }, { day: '2025-06-01', version: '1.1.0' }], 'example'),
+            github([{ day: '2025-06-01', tagName: 'v1.1.0' }, { day: '2025-05-20', tagName: 'v1.0.1' }], 'example'),
+            // Not in the group, so not linked
+            { ...github([{ day: '2025-05-15', tagName: 'v9.0.0' }]), name: 'owner/other' },
+        ]
+
+        const impacts = findReleaseImpacts(metrics)
+        expect(impacts.map(impact => [impact.day, impact.releases.map(release => release.release), impact.change])).toEqual([
+            ['2025-06-01', ['1.1.0', 'v1.1.0'], 2],
+            ['2025-05-20', ['v1.0.1'], 0],
+        ])
+        // Only npm and PyPI series are measured
+        expect(impacts.every(impact => impact.platform === 'NPM')).toBe(true)
+    })
+})
+
+describe('formatReleaseImpact', () => {
+    afterEach(() => {
+        configureReleaseImpact({ windowDays: 0 })
+    })
+
+    test('lists each release with the source it came from', () => {
+        configureReleaseImpact({ windowDays: 7 })
+        expect(formatReleaseImpact([npm([{ day: '2025-06-01', version: '1.1.0' }], 'example'), github([{ day: '2025-06-01', tagName: 'v1.1.0' }], 'example')])).toBe(
+            '### Release impact\n\n'
+            + '| Released | Release | Downloads of | 7 days before | 7 days after | Change |\n'
+            + '| --- | --- | --- | --- | --- | --- |\n'
+            + '| 2025-06-01 | 1.1.0, v1.1.0 (Example repo) | example | 70 | 210 | +200% |\n'
+            + '\nDownloads in the 7 days before each release day are compared with the 7 days starting on it. Releases are linked to their own package and to the npm and PyPI packages in the same group.\n\n'
+        )
+    })
+
+    test('shows the 20 most recent releases', () => {
+        configureReleaseImpact({ windowDays: 7 })
+        const releases = Array.from({ length: 21 }, (_, index) => ({ day: addDays('2025-05-08', index), version: `1.0.${index}` }))
+        const summary = formatReleaseImpact([npm(releases)])
+        const rows = summary.split('\n').filter(line => line.startsWith('| 2025-'))
+        expect(rows).toHaveLength(20)
+        expect(rows[0]).toStartWith('| 2025-05-28 | 1.0.20 |')
+        expect(summary).toContain('\nShowing the 20 most recent of 21 releases.\n')
+    })
+
+    test('says so when no release can be measured yet', () => {
+        configureReleaseImpact({ windowDays: 30 })
+        expect(formatReleaseImpact([npm([{ day: '2025-06-25', version: '1.2.0' }])])).toBe('### Release impact\n\nNo releases with 30 days of npm or PyPI downloads on both sides yet.\n\n')
+    })
+})
@@ -0,0 +1,163 @@
+/**
+ * Release impact: downloads in the days before and after each release of a tracked source,
+ * measured on the daily npm or PyPI series the release belongs to
+ */
+
+import { isPlatformResult, type DownloadsRangeEntry, type MetricResult } from './collectors/types.js';
+
+export interface ReleaseImpactOptions {
+    /** Days compared on each side of a release; 0 turns the analysis off */
+    windowDays: number;
+}
+
+export interface Release {
+    platform: string;
+    name: string;
+    /** Tag or version */
+    release: string;
+    /** Publish day */
+    day: string;
+}
+
+export interface ReleaseImpact {
+    /** The series the downloads were measured on */
+    platform: string;
+    name: string;
+    day: string;
+    /** Every release published that day that is linked to the series */
+    releases: Release[];
+    before: number;
+    after: number;
+    /** Relative change from before to after; undefined when there were no downloads before */
+    change?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Platforms whose downloadsRange is a daily series the impact can be measured on
+const SERIES_PLATFORMS = ['NPM', 'PyPI']
+const MAX_RELEASES = 20
+
+let options: ReleaseImpactOptions = { windowDays: 0 }
+
+/**
+ * Turn the release impact analysis on or off; omitted options keep their current values
+ */
+export function configureReleaseImpact(next: Partial<ReleaseImpactOptions>) {
+    options = { ...options, ...next }
+}
+
+export function getReleaseImpactOptions(): Readonly<ReleaseImpactOptions> {
+    return options
+}
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day.slice(0, 10)}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * The releases a result knows about with their publish days: GitHub releases, PowerShell and npm versions,
+ * and the latest PyPI release
+ */
+export function findReleases(metric: MetricResult): Release[] {
+    if (metric.error) return []
+    const releases: Release[] = []
+    const downloadsRange: DownloadsRangeEntry[] = metric.metrics?.downloadsRange || []
+    for (const entry of downloadsRange) {
+        const release = entry.tagName ?? entry.version
+        if (release !== undefined && entry.day) releases.push({ platform: metric.platform, name: metric.name, release, day: entry.day.slice(0, 10) })
+    }
+    if (isPlatformResult(metric, 'NPM')) {
+        // Stats files written before `versionReleases` only know the versions downloaded in their last week
+        for (const entry of metric.metrics?.versionReleases || metric.metrics?.versionDownloads || []) {
+            if (entry.day) releases.push({ platform: metric.platform, name: metric.name, release: entry.version, day: entry.day.slice(0, 10) })
+        }
+    }
+    if (isPlatformResult(metric, 'PyPI') && metric.metrics?.latestReleaseDate && metric.metrics.version) {
+        releases.push({ platform: metric.platform, name: metric.name, release: metric.metrics.version, day: metric.metrics.latestReleaseDate.slice(0, 10) })
+    }
+    return releases
+}
+
+/**
+ * Downloads in the `windowDays` days before a release day and in the `windowDays` days from it
+ * @returns undefined when the series does not cover both windows yet
+ */
+export function measureImpact(series: Map<string, number>, firstDay: string, lastDay: string, day: string, windowDays: number) {
+    const start = addDays(day, -windowDays)
+    const end = addDays(day, windowDays - 1)
+    if (start < firstDay || end > lastDay) return undefined
+    let before = 0
+    let after = 0
+    for (let offset = -windowDays; offset < windowDays; offset++) {
+        const downloads = series.get(addDays(day, offset)) || 0
+        if (offset < 0) before += downloads
+        else after += downloads
+    }
+    return { before, after, change: before > 0 ? after / before - 1 : undefined }
+}
+
+/**
+ * Release impacts for every npm and PyPI series, newest first. A series is linked to its own releases
+ * and to the releases of every source in the same `group`, so a GitHub release is measured on the
+ * product's npm and PyPI downloads. Releases published the same day are measured once.
+ */
+export function findReleaseImpacts(metrics: MetricResult[]): ReleaseImpact[] {
+    if (options.windowDays <= 0) return []
+    const impacts: ReleaseImpact[] = []
+    for (const metric of metrics) {
+        if (metric.error || !SERIES_PLATFORMS.includes(metric.platform)) continue
+        const range = metric.metrics?.downloadsRange || []
+        if (range.length === 0) continue
+        const series = new Map(range.map(entry => [entry.day.slice(0, 10), entry.downloads]))
+        const days = Array.from(series.keys()).sort()
+
+        const linked = metrics.filter(other => other === metric || (metric.group && other.group === metric.group))
+        const byDay = new Map<string, Release[]>()
+        for (const release of linked.flatMap(findReleases)) {
+            const releases = byDay.get(release.day) || []
+            if (!releases.some(existing => existing.platform === release.platform && existing.name === release.name && existing.release === release.release)) {
+                byDay.set(release.day, [...releases, release])
+            }
+        }
+
+        for (const [day, releases] of byDay) {
+            const impact = measureImpact(series, days[0], days[days.length - 1], day, options.windowDays)
+            if (impact) impacts.push({ platform: metric.platform, name: metric.name, day, releases, ...impact })
+        }
+    }
+    return impacts.sort((a, b) => b.day.localeCompare(a.day))
+}
+
+function formatChange(change: number | undefined) {
+    if (change === undefined) return 'N/A'
+    const percent = Math.round(change * 100)
+    return `${percent > 0 ? '+' : ''}${percent.toLocaleString()}%`
+}
+
+/**
+ * The "Release impact" section; empty when the analysis is off
+ */
+export function formatReleaseImpact(metrics: MetricResult[]): string {
+    if (options.windowDays <= 0) return ''
+    const names = new Map(metrics.map(metric => [`${metric.platform}:${metric.name}`, metric.displayName || metric.name]))
+    const impacts = findReleaseImpacts(metrics)
+
+    let summary = `### Release impact\n\n`
+    if (impacts.length === 0) {
+        return summary + `No releases with ${options.windowDays} days of npm or PyPI downloads on both sides yet.\n\n`
+    }
+    summary += `| Released | Release | Downloads of | ${options.windowDays} days before | ${options.windowDays} days after | Change |\n`
+    summary += `| --- | --- | --- | --- | --- | --- |\n`
+    for (const impact of impacts.slice(0, MAX_RELEASES)) {
+        const releases = impact.releases.map(release => {
+            const source = release.platform === impact.platform && release.name === impact.name ? '' : ` (${names.get(`${release.platform}:${release.name}`) || release.name})`
+            return `${release.release}${source}`
+        }).join(', ')
+        summary += `| ${impact.day} | ${releases} | ${names.get(`${impact.platform}:${impact.name}`) || impact.name} | ${impact.before.toLocaleString()} | ${impact.after.toLocaleString()} | ${formatChange(impact.change)} |\n`
+    }
+    if (impacts.length > MAX_RELEASES) {
+        summary += `\nShowing the ${MAX_RELEASES} most recent of ${impacts.length} releases.\n`
+    }
+    summary += `\nDownloads in the ${options.windowDays} days before each release day are compared with the ${options.windowDays} days starting on it. Releases are linked to their own package and to the npm and PyPI packages in the same group.\n\n`
+    return summary
+}
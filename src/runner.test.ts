@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configureRecorder } from './clients/recorder.js';
+import { setClock } from './clock.js';
+import { isPlatformResult, type MetricResult } from './collectors/types.js';
+import { getPendingFiles, setDryRun } from './output.js';
+import { loadPreviousResults } from './previous.js';
+import { findReleases } from './releases.js';
+import { collectMetrics } from './runner.js';
+import { writeStats } from './stats.js';
+import { createSummary } from './utils.js';
+
+// Recorded on 2025-06-30 from a run whose previous stats held npm downloads up to 2025-06-20
+// and GitHub traffic from 2025-06-01 to 2025-06-16
+const FIXTURES = join(import.meta.dir, '__fixtures__', 'replay')
+
+const SOURCES = [
+    { platform: 'NPM', name: 'usage-statistics-fixture', options: { group: 'Fixture' } },
+    { platform: 'GitHub', name: 'example/usage-statistics-fixture', options: { group: 'Fixture' } },
+]
+
+describe('replaying recorded fixtures', () => {
+    let workDir: string
+    let metrics: MetricResult[]
+    const githubToken = process.env.GITHUB_TOKEN
+
+    beforeAll(async () => {
+        workDir = await mkdtemp(join(tmpdir(), 'usage-statistics-replay-'))
+        // Traffic is only requested with a token; none is sent anywhere in replay mode
+        process.env.GITHUB_TOKEN = 'fixture-token'
+        await configureRecorder('replay', FIXTURES)
+
+        // A stats file unlike the one the fixtures were recorded from: npm history up to March only
+        const unrelatedStats = join(workDir, 'stats.json')
+        await writeStats(unrelatedStats, [{
+            platform: 'NPM',
+            name: 'usage-statistics-fixture',
+            timestamp: '2025-03-01T00:00:00.000Z',
+            metrics: { downloadsTotal: 1, downloadsRange: [{ day: '2025-01-01', downloads: 1 }, { day: '2025-03-01', downloads: 1 }] },
+        }])
+        await loadPreviousResults(unrelatedStats)
+        metrics = await collectMetrics(SOURCES)
+    })
+
+    afterAll(async () => {
+        await configureRecorder('live', '')
+        setClock(undefined)
+        setDryRun(false)
+        process.env.GITHUB_TOKEN = githubToken
+        await rm(workDir, { recursive: true, force: true })
+    })
+
+    test('collects every source from the fixtures, whatever stats file is on disk', () => {
+        expect(metrics.map(metric => metric.error)).toEqual([undefined, undefined])
+
+        const npm = metrics.find(metric => isPlatformResult(metric, 'NPM'))!.metrics!
+        expect(npm.downloadsRange).toHaveLength(181)
+        expect(npm.downloadsRange![0].day).toBe('2025-01-01')
+        expect(npm.downloadsRange![180].day).toBe('2025-06-30')
+        expect(npm.downloadsTotal).toBe(33_850)
+        expect(npm.downloadsMonthly).toBe(5_200)
+        // 1.0.0 was not downloaded in the recorded week, yet it is still a release
+        expect(npm.versionDownloads?.map(entry => entry.version)).toEqual(['1.1.0', '1.2.0', '2.0.0'])
+        expect(findReleases(metrics.find(metric => metric.platform === 'NPM')!).map(release => release.release)).toEqual(['1.0.0', '1.1.0', '1.2.0', '2.0.0'])
+
+        const github = metrics.find(metric => isPlatformResult(metric, 'GitHub'))!.metrics!
+        expect(github.stars).toBe(1_234)
+        expect(github.trafficSince).toBe('2025-06-01')
+        expect(github.trafficRange).toHaveLength(30)
+        expect(github.viewsTotal).toBe(740)
+    })
+
+    test('renders the summary and charts from the replayed results', async () => {
+        setDryRun(true)
+        const summary = await createSummary(metrics)
+
+        expect(summary).toContain('Last updated: 6/30/2025')
+        expect(summary).toContain('| Fixture | 34,600 | 33,850 (98%) | 750 (2%) |')
+        expect(summary).toContain('| usage-statistics-fixture | 33,850 | 5,200 | 1,250 | 190 |')
+        expect(summary).toContain('| 2.0.0 | 2025-05-20 | 1,010 | 80.8% |')
+        expect(summary).toContain('| example/usage-statistics-fixture | 1,234 | 56 | 21 |')
+        expect(summary).toContain('- Views since 2025-06-01: 740')
+
+        const charts = Array.from(getPendingFiles().keys())
+        expect(charts).toEqual(expect.arrayContaining([
+            'charts/products/product-downloads-by-month.svg',
+            'charts/npm/usage-statistics-fixture-version-adoption.svg',
+            'charts/npm/usage-statistics-fixture-cumulative-downloads.svg',
+            'charts/github/example-usage-statistics-fixture-traffic-by-month.svg',
+        ]))
+        for (const chart of charts) {
+            expect(getPendingFiles().get(chart)!.toString('utf8')).toContain('<svg')
+        }
+        // Every chart the summary links to was generated
+        for (const [, path] of summary.matchAll(/!\[[^\]]*\]\(\.\/([^)]+)\)/g)) {
+            expect(charts).toContain(path)
+        }
+    })
+})
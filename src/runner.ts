@@ -0,0 +1,53 @@
+/**
+ * Collection pipeline shared by the GitHub Action and the CLI
+ */
+
+import * as core from '@actions/core';
+import type { MetricResult, SourceConfig } from './collectors/types.js';
+import { collectPlatform, getPlatform } from './registry.js';
+
+/**
+ * Collect metrics for every source, one registered platform at a time
+ * @param sources - The sources to collect, as resolved from inputs or a config file
+ * @returns One result per source, with display options from the source config applied
+ */
+export async function collectMetrics(sources: SourceConfig[]): Promise<MetricResult[]> {
+    const platformsTracked = sources.map(source => source.platform).filter((value, index, self) => self.indexOf(value) === index)
+
+    core.debug(`Platforms to track: ${platformsTracked.join(', ')}`)
+
+    const metricPromises: Promise<MetricResult[]>[] = []
+
+    for (const platform of platformsTracked) {
+        const definition = getPlatform(platform)
+        if (!definition) {
+            throw new Error(`No collector registered for platform ${platform}`)
+        }
+        const platformSources = sources.filter(source => source.platform === platform)
+
+        core.info(`Collecting ${platform} metrics...`)
+        console.log(`Collecting ${platform} metrics for ${platformSources.map(source => source.name).join(', ')}`)
+        console.time(`Collecting ${platform} metrics`)
+        metricPromises.push(collectPlatform(definition, platformSources).then(results => {
+            console.timeEnd(`Collecting ${platform} metrics`)
+            return results
+        }))
+    }
+
+    console.log('All metrics collecting started')
+
+    const metricResults = await Promise.all(metricPromises)
+    const metrics = metricResults.flat()
+
+    // Carry display options from the source configuration onto the results
+    for (const metric of metrics) {
+        const source = sources.find(source => source.platform === metric.platform && source.name === metric.name)
+        if (source?.options?.displayName) metric.displayName = source.options.displayName
+        if (source?.options?.group) metric.group = source.options.group
+        if (source?.options?.benchmark) metric.benchmark = true
+    }
+
+    console.log('All metrics collecting completed')
+
+    return metrics
+}
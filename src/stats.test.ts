@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import type { MetricResult } from './collectors/types.js';
+import { diffStats, formatStatsDiff, migrateStats, STATS_SCHEMA_URL, STATS_SCHEMA_VERSION } from './stats.js';
+
+function npm(name: string, downloadsTotal: number): MetricResult {
+    return { platform: 'NPM', name, timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal, downloadsRange: [] } }
+}
+
+describe('migrateStats', () => {
+    test('wraps a version 1 list and renames the GitHub release downloads', () => {
+        const downloadRange = [{ day: '2025-06-01', downloads: 5, tagName: 'v1.0.0' }]
+        const file = migrateStats([
+            { platform: 'GitHub', name: 'owner/repo', timestamp: '2025-06-30T06:00:00.000Z', metrics: { downloadsTotal: 5, downloadRange } },
+            { platform: 'NPM', name: 'a', timestamp: '2025-06-29T06:00:00.000Z', metrics: { downloadsTotal: 1, downloadsRange: [] } },
+        ])
+
+        expect(file.$schema).toBe(STATS_SCHEMA_URL)
+        expect(file.schemaVersion).toBe(STATS_SCHEMA_VERSION)
+        expect(file.generatedAt).toBe('2025-06-30T06:00:00.000Z')
+        expect(file.tool).toEqual({ name: 'usage-statistics', version: 'unknown' })
+        expect(file.results[0].metrics).toEqual({ downloadsTotal: 5, downloadsRange: downloadRange })
+        expect(file.results[1].metrics).toEqual({ downloadsTotal: 1, downloadsRange: [] })
+    })
+
+    test('leaves a current file as it is', () => {
+        const file = { schemaVersion: STATS_SCHEMA_VERSION, generatedAt: '2025-06-30T06:00:00.000Z', tool: { name: 'usage-statistics', version: '1.2.3' }, results: [npm('a', 1)] }
+        expect(migrateStats(file)).toEqual({ ...file, $schema: STATS_SCHEMA_URL })
+    })
+
+    test('rejects files it cannot read', () => {
+        expect(() => migrateStats({ downloads: 1 })).toThrow('expected a list of metric results or a stats file with a results list')
+        expect(() => migrateStats({ schemaVersion: 0, results: [] })).toThrow('invalid schema version 0')
+        expect(() => migrateStats({ schemaVersion: STATS_SCHEMA_VERSION + 1, results: [] })).toThrow(`schema version ${STATS_SCHEMA_VERSION + 1} is newer than this tool supports`)
+    })
+})
+
+describe('diffStats', () => {
+    const failed: MetricResult = { platform: 'NPM', name: 'failing', timestamp: '2025-06-30T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' }
+    const diffs = diffStats(
+        [npm('same', 10), npm('grown', 100), npm('gone', 5), failed],
+        [npm('same', 10), npm('grown', 1_500), npm('new', 7), failed],
+    )
+
+    test('sorts every source into added, removed, changed or unchanged', () => {
+        expect(diffs.map(diff => [diff.name, diff.status])).toEqual([
+            ['same', 'unchanged'],
+            ['grown', 'changed'],
+            ['gone', 'removed'],
+            ['failing', 'unchanged'],
+            ['new', 'added'],
+        ])
+        expect(diffs[1].changes).toEqual([{ metric: 'downloadsTotal', before: 100, after: 1_500, change: 1_400 }])
+        expect(diffs[2].changes).toEqual([{ metric: 'downloadsTotal', before: 5, after: undefined, change: -5 }])
+    })
+
+    test('renders the sources that changed as a table', () => {
+        expect(formatStatsDiff(diffs)).toBe(
+            '| Platform | Source | Status | Metric | Before | After | Change |\n'
+            + '| --- | --- | --- | --- | --- | --- | --- |\n'
+            + '| NPM | grown | changed | downloadsTotal | 100 | 1,500 | +1,400 |\n'
+            + '| NPM | gone | removed | downloadsTotal | 5 | — | -5 |\n'
+            + '| NPM | new | added | downloadsTotal | — | 7 | +7 |\n'
+        )
+        expect(formatStatsDiff(diffStats([npm('same', 10)], [npm('same', 10)]))).toBe('No changes between the two stats files.\n')
+    })
+})
@@ -0,0 +1,201 @@
+/**
+ * Reading, writing and comparing stats JSON files
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import type { DownloadsRangeEntry, MetricResult } from './collectors/types.js';
+import { now } from './clock.js';
+
+export interface MetricChange {
+    metric: string;
+    before?: number;
+    after?: number;
+    change: number;
+}
+
+export interface SourceDiff {
+    platform: string;
+    name: string;
+    status: 'added' | 'removed' | 'changed' | 'unchanged';
+    changes: MetricChange[];
+}
+
+/**
+ * Version of the stats file format. Bump it whenever a stored field is renamed or removed,
+ * add a migration below, and update schema/stats.schema.json.
+ */
+export const STATS_SCHEMA_VERSION = 2
+
+// package.json is one level up from both src/ and the compiled dist/
+export const TOOL_VERSION: string = (createRequire(import.meta.url)('../package.json') as { version: string }).version
+
+export const STATS_SCHEMA_URL = 'https://raw.githubusercontent.com/LukeHagar/usage-statistics/main/schema/stats.schema.json'
+
+export interface StatsFile {
+    $schema?: string;
+    schemaVersion: number;
+    generatedAt: string;
+    tool: {
+        name: string;
+        version: string;
+    };
+    results: MetricResult[];
+}
+
+type Migration = (results: MetricResult[]) => MetricResult[]
+
+// migrations[n] upgrades results from schema version n to n + 1
+const migrations: Record<number, Migration> = {
+    // Version 1 was a bare list of results; GitHub stored release downloads as `downloadRange`
+    1: results => results.map(result => {
+        if (result.platform !== 'GitHub' || !result.metrics || !('downloadRange' in result.metrics)) return result
+        const { downloadRange, ...metrics } = result.metrics
+        return { ...result, metrics: { ...metrics, downloadsRange: metrics.downloadsRange ?? (downloadRange as DownloadsRangeEntry[]) } }
+    }),
+}
+
+/**
+ * Bring a parsed stats file up to the current schema version
+ * @param document - The parsed JSON of a stats file: a version 1 list of results or a versioned envelope
+ * @returns The file as a current-version envelope
+ */
+export function migrateStats(document: unknown): StatsFile {
+    let file: StatsFile
+    if (Array.isArray(document)) {
+        file = { schemaVersion: 1, generatedAt: latestTimestamp(document), tool: { name: 'usage-statistics', version: 'unknown' }, results: document }
+    } else if (document && typeof document === 'object' && Array.isArray((document as StatsFile).results)) {
+        file = document as StatsFile
+    } else {
+        throw new Error('expected a list of metric results or a stats file with a results list')
+    }
+
+    if (!Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+        throw new Error(`invalid schema version ${JSON.stringify(file.schemaVersion)}`)
+    }
+    if (file.schemaVersion > STATS_SCHEMA_VERSION) {
+        throw new Error(`schema version ${file.schemaVersion} is newer than this tool supports (${STATS_SCHEMA_VERSION}); upgrade usage-statistics`)
+    }
+
+    let results = file.results
+    for (let version = file.schemaVersion; version < STATS_SCHEMA_VERSION; version++) {
+        results = migrations[version](results)
+    }
+    return { ...file, $schema: STATS_SCHEMA_URL, schemaVersion: STATS_SCHEMA_VERSION, results }
+}
+
+function latestTimestamp(results: MetricResult[]) {
+    return results.map(result => result.timestamp).filter(Boolean).sort().pop() ?? new Date(0).toISOString()
+}
+
+/**
+ * Read a stats file written by any earlier version of the tool, migrating it to the current format
+ * @param statsPath - Path to the stats JSON file
+ * @returns The metric results stored in the file
+ */
+export async function readStats(statsPath: string): Promise<MetricResult[]> {
+    return (await readStatsFile(statsPath)).results
+}
+
+/**
+ * Read a stats file along with its envelope (generation time and the tool version that wrote it)
+ */
+export async function readStatsFile(statsPath: string): Promise<StatsFile> {
+    const content = await readFile(statsPath, 'utf8')
+    try {
+        return migrateStats(JSON.parse(content))
+    } catch (error) {
+        throw new Error(`${statsPath} is not a stats file: ${error instanceof Error ? error.message : error}`)
+    }
+}
+
+/**
+ * Write results in the current stats file format
+ */
+export async function writeStats(statsPath: string, metrics: MetricResult[]) {
+    const file: StatsFile = {
+        $schema: STATS_SCHEMA_URL,
+        schemaVersion: STATS_SCHEMA_VERSION,
+        generatedAt: now().toISOString(),
+        tool: { name: 'usage-statistics', version: TOOL_VERSION },
+        results: metrics,
+    }
+    await writeFile(statsPath, JSON.stringify(file, null, 2), 'utf8')
+}
+
+function sourceKey(metric: MetricResult) {
+    return `${metric.platform}:${metric.name}`
+}
+
+// Only scalar counters are compared; series and breakdowns are left to the charts
+function numericMetrics(metric: MetricResult | undefined): Record<string, number> {
+    const values: Record<string, number> = {}
+    for (const [key, value] of Object.entries(metric?.metrics || {})) {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            values[key] = value
+        }
+    }
+    return values
+}
+
+/**
+ * Compare the numeric metrics of two stats files source by source
+ * @param before - Results from the older stats file
+ * @param after - Results from the newer stats file
+ * @returns One entry per source found in either file
+ */
+export function diffStats(before: MetricResult[], after: MetricResult[]): SourceDiff[] {
+    const beforeByKey = new Map(before.map(metric => [sourceKey(metric), metric]))
+    const afterByKey = new Map(after.map(metric => [sourceKey(metric), metric]))
+    const keys = Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()]))
+
+    return keys.map(key => {
+        const previous = beforeByKey.get(key)
+        const current = afterByKey.get(key)
+        const source = (current || previous)!
+        const beforeValues = numericMetrics(previous)
+        const afterValues = numericMetrics(current)
+
+        const changes: MetricChange[] = []
+        for (const metric of Array.from(new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]))) {
+            const change = (afterValues[metric] ?? 0) - (beforeValues[metric] ?? 0)
+            if (change !== 0 || beforeValues[metric] === undefined || afterValues[metric] === undefined) {
+                changes.push({ metric, before: beforeValues[metric], after: afterValues[metric], change })
+            }
+        }
+
+        let status: SourceDiff['status'] = changes.length > 0 ? 'changed' : 'unchanged'
+        if (!previous) status = 'added'
+        if (!current) status = 'removed'
+
+        return { platform: source.platform, name: source.name, status, changes }
+    })
+}
+
+function formatValue(value: number | undefined) {
+    return value === undefined ? '—' : value.toLocaleString()
+}
+
+/**
+ * Render a stats diff as a markdown table, skipping unchanged sources
+ */
+export function formatStatsDiff(diffs: SourceDiff[]): string {
+    const changed = diffs.filter(diff => diff.status !== 'unchanged')
+    if (changed.length === 0) {
+        return 'No changes between the two stats files.\n'
+    }
+
+    let output = `| Platform | Source | Status | Metric | Before | After | Change |\n`
+    output += `| --- | --- | --- | --- | --- | --- | --- |\n`
+    for (const diff of changed) {
+        if (diff.changes.length === 0) {
+            output += `| ${diff.platform} | ${diff.name} | ${diff.status} | | | | |\n`
+            continue
+        }
+        for (const change of diff.changes) {
+            const sign = change.change > 0 ? '+' : ''
+            output += `| ${diff.platform} | ${diff.name} | ${diff.status} | ${change.metric} | ${formatValue(change.before)} | ${formatValue(change.after)} | ${sign}${change.change.toLocaleString()} |\n`
+        }
+    }
+    return output
+}
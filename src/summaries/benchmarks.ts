@@ -0,0 +1,156 @@
+import { ensureOutputDir, writeOutputFile } from '../output.js';
+import type { MetricResult } from "../collectors/types.js";
+import { dailyDownloads } from './products.js';
+import { Chart, registerables } from 'chart.js';
+import { Canvas } from 'skia-canvas';
+
+// Register all Chart.js controllers
+Chart.register(...registerables);
+
+interface Contender {
+    label: string;
+    /** Whether this is our own sources combined rather than a benchmark */
+    ours: boolean;
+    series: Map<string, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const GROWTH_PERIODS = [30, 90]
+const palette = ['#2563eb', '#64748b', '#f59e0b', '#ef4444', '#7c3aed', '#0891b2', '#16a34a', '#dc2626']
+
+/**
+ * Separate our own sources from benchmark sources (such as competitors' packages), which are
+ * collected like any other source but kept out of every section except the comparison
+ */
+export function splitBenchmarks(metrics: MetricResult[]) {
+    return {
+        own: metrics.filter(metric => !metric.benchmark),
+        benchmarks: metrics.filter(metric => metric.benchmark),
+    }
+}
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function toSeries(metrics: MetricResult[]) {
+    const series = new Map<string, number>()
+    for (const metric of metrics) {
+        for (const entry of dailyDownloads(metric)) {
+            const day = entry.day.slice(0, 10)
+            series.set(day, (series.get(day) || 0) + entry.downloads)
+        }
+    }
+    return series
+}
+
+function sumDays(series: Map<string, number>, from: string, to: string) {
+    let total = 0
+    for (const [day, downloads] of series) {
+        if (day >= from && day <= to) total += downloads
+    }
+    return total
+}
+
+/**
+ * Our sources on a platform combined, followed by each of its benchmarks
+ */
+function contendersFor(platform: string, own: MetricResult[], benchmarks: MetricResult[]): Contender[] {
+    return [
+        { label: 'Ours', ours: true, series: toSeries(own.filter(metric => metric.platform === platform && !metric.error)) },
+        ...benchmarks
+            .filter(metric => metric.platform === platform && !metric.error)
+            .map(metric => ({ label: metric.displayName || metric.name, ours: false, series: toSeries([metric]) })),
+    ].filter(contender => contender.series.size > 0)
+}
+
+function formatGrowth(current: number, previous: number) {
+    if (previous === 0) return current > 0 ? 'new' : '—'
+    const percent = Math.round((current / previous - 1) * 100)
+    return `${percent > 0 ? '+' : ''}${percent.toLocaleString()}%`
+}
+
+export async function createMarketShareChart(platform: string, contenders: Contender[], outputPath: string): Promise<string> {
+    const svgOutputPath = `${outputPath}/${platform.toLowerCase()}-market-share.svg`
+    const months = Array.from(new Set(contenders.flatMap(contender => Array.from(contender.series.keys()).map(day => day.slice(0, 7))))).sort()
+    const monthly = contenders.map(contender => months.map(month => sumDays(contender.series, `${month}-01`, `${month}-31`)))
+    const totals = months.map((_, index) => monthly.reduce((sum, values) => sum + values[index], 0))
+
+    const canvas = new Canvas(1000, 600);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'line',
+            data: {
+                labels: months.map(month => new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })),
+                datasets: contenders.map((contender, index) => ({
+                    label: contender.label,
+                    data: monthly[index].map((value, month) => totals[month] > 0 ? Math.round(value / totals[month] * 1000) / 10 : 0),
+                    borderColor: palette[index % palette.length],
+                    backgroundColor: palette[index % palette.length] + (contender.ours ? 'cc' : '66'),
+                    borderWidth: contender.ours ? 2 : 1,
+                    pointRadius: 0,
+                    fill: index === 0 ? 'origin' : '-1',
+                    tension: 0.1
+                }))
+            },
+            options: {
+                plugins: {
+                    legend: { display: true, position: 'bottom' },
+                    title: { display: true, text: `${platform} share of combined downloads` }
+                },
+                scales: {
+                    x: { title: { display: true, text: 'Month' } },
+                    y: { stacked: true, min: 0, max: 100, title: { display: true, text: 'Share of downloads per month (%)' } }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
+
+/**
+ * The "Benchmarks" section: for each platform with benchmark sources, our share of the combined
+ * downloads over the last 30 days, growth over 30 and 90 days, and a normalized stacked chart of
+ * the share per month. Empty when no source is a benchmark.
+ */
+export async function formatBenchmarkComparison(metrics: MetricResult[]): Promise<string> {
+    const { own, benchmarks } = splitBenchmarks(metrics)
+    if (benchmarks.length === 0) return ''
+    const platforms = benchmarks.map(metric => metric.platform).filter((value, index, self) => self.indexOf(value) === index)
+
+    let summary = `### Benchmarks\n\n`
+    const outputPath = './charts/benchmarks'
+    ensureOutputDir(outputPath)
+    for (const platform of platforms) {
+        const contenders = contendersFor(platform, own, benchmarks)
+        if (contenders.length === 0) continue
+        // Windows end on the last day every series has, so a source updated later does not look ahead
+        const lastDay = contenders.map(contender => Array.from(contender.series.keys()).sort().pop()!).sort()[0]
+        const recent = contenders.map(contender => sumDays(contender.series, addDays(lastDay, -29), lastDay))
+        const combined = recent.reduce((sum, value) => sum + value, 0)
+
+        summary += `#### ${platform}\n\n`
+        summary += `| Source | Last 30 days | Share |${GROWTH_PERIODS.map(days => ` Growth (${days}d) |`).join('')}\n`
+        summary += `| --- | --- | --- |${GROWTH_PERIODS.map(() => ` --- |`).join('')}\n`
+        contenders.forEach((contender, index) => {
+            const label = contender.ours ? `**${contender.label}**` : contender.label
+            const share = combined > 0 ? `${(recent[index] / combined * 100).toFixed(1)}%` : '—'
+            const growth = GROWTH_PERIODS.map(days => {
+                const current = sumDays(contender.series, addDays(lastDay, -(days - 1)), lastDay)
+                const previous = sumDays(contender.series, addDays(lastDay, -(2 * days - 1)), addDays(lastDay, -days))
+                return ` ${formatGrowth(current, previous)} |`
+            }).join('')
+            summary += `| ${label} | ${recent[index].toLocaleString()} | ${share} |${growth}\n`
+        })
+        summary += `\n`
+        const svgOutputPath = await createMarketShareChart(platform, contenders, outputPath)
+        summary += `![${svgOutputPath}](${svgOutputPath})\n\n`
+    }
+    summary += `Growth compares the last 30 or 90 days up to the last day every source reports with the period before. Benchmark sources are not counted in any other section.\n\n`
+    return summary
+}
@@ -1,5 +1,8 @@
-import { mkdirSync, writeFileSync } from "fs"
-import type { MetricResult } from "../collectors/types.js"
+import { ensureOutputDir, writeOutputFile } from "../output.js"
+import type { GitHubMetrics, GitHubTrafficDay, MetricResult } from "../collectors/types.js"
+import { anomalyDataset, anomalyMarkers, detectAnomalies } from "../anomalies.js"
+import { deltaCell, deltaDivider, deltaHeader, totalDeltaCell } from "../deltas.js"
+import { formatCount } from "../policy.js"
 import { Chart, registerables } from 'chart.js';
 import { Canvas } from 'skia-canvas';
 import semver from "semver";
@@ -31,7 +34,7 @@ function safeSemverCompare(a: string, b: string): number {
     }
 }
 
-export function formatGitHubSummary(summary: string, platformMetrics: MetricResult[]): string {
+export function formatGitHubSummary(summary: string, platformMetrics: MetricResult<GitHubMetrics>[]): string {
     let totalStars = 0
     let totalForks = 0
     let totalWatchers = 0
@@ -41,8 +44,8 @@ export function formatGitHubSummary(summary: string, platformMetrics: MetricResu
     let totalDownloads = 0
     let totalReleases = 0
 
-    summary += `| Repository | Stars | Forks | Watchers | Open Issues | Closed Issues | Total Issues | Release Downloads | Releases | Latest Release | Language |\n`
-    summary += `| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |\n`
+    summary += `| Repository | Stars |${deltaHeader('Stars')} Forks |${deltaHeader('Forks')} Watchers | Open Issues | Closed Issues | Total Issues | Release Downloads |${deltaHeader('Release Downloads')} Releases | Latest Release | Language |\n`
+    summary += `| --- | --- |${deltaDivider()} --- |${deltaDivider()} --- | --- | --- | --- | --- |${deltaDivider()} --- | --- | --- |\n`
     for (const metric of platformMetrics) {
         const stars = metric.metrics?.stars || 0
         const forks = metric.metrics?.forks || 0
@@ -65,19 +68,19 @@ export function formatGitHubSummary(summary: string, platformMetrics: MetricResu
         totalDownloads += downloads
         totalReleases += releases
 
-        summary += `| ${metric.name} | ${stars.toLocaleString()} | ${forks.toLocaleString()} | ${watchers.toLocaleString()} | ${openIssues.toLocaleString()} | ${closedIssues.toLocaleString()} | ${issues.toLocaleString()} | ${downloads.toLocaleString()} | ${releases.toLocaleString()} | ${latestRelease} | ${language} |\n`
+        summary += `| ${metric.displayName || metric.name} | ${formatCount(metric, stars)} |${deltaCell(metric, 'stars')} ${formatCount(metric, forks)} |${deltaCell(metric, 'forks')} ${formatCount(metric, watchers)} | ${formatCount(metric, openIssues)} | ${formatCount(metric, closedIssues)} | ${formatCount(metric, issues)} | ${formatCount(metric, downloads)} |${deltaCell(metric, 'totalReleaseDownloads')} ${formatCount(metric, releases)} | ${latestRelease} | ${language} |\n`
     }
-    summary += `| **Total** | **${totalStars.toLocaleString()}** | **${totalForks.toLocaleString()}** | **${totalWatchers.toLocaleString()}** | **${totalOpenIssues.toLocaleString()}** | **${totalClosedIssues.toLocaleString()}** | **${totalIssues.toLocaleString()}** | **${totalDownloads.toLocaleString()}** | **${totalReleases.toLocaleString()}** | | |\n`
+    summary += `| **Total** | **${totalStars.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'stars')} **${totalForks.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'forks')} **${totalWatchers.toLocaleString()}** | **${totalOpenIssues.toLocaleString()}** | **${totalClosedIssues.toLocaleString()}** | **${totalIssues.toLocaleString()}** | **${totalDownloads.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'totalReleaseDownloads')} **${totalReleases.toLocaleString()}** | | |\n`
 
     return summary
 }
 
-export async function addRepoDetails(summary: string, metrics: MetricResult[]) {
+export function addRepoDetails(summary: string, metrics: MetricResult<GitHubMetrics>[]) {
 
     summary += `#### Repository Details:\n\n`
     
     for (const metric of metrics) {
-        summary += `**${metric.name}**:\n`
+        summary += `**${metric.displayName || metric.name}**:\n`
         summary += `- Last Activity: ${metric.metrics?.lastActivity?.toLocaleString() || 0} days ago\n`
         summary += `- Repository Age: ${metric.metrics?.repositoryAge?.toLocaleString() || 0} days\n`
         summary += `- Release Count: ${metric.metrics?.releaseCount?.toLocaleString() || 0}\n`
@@ -87,13 +90,21 @@ export async function addRepoDetails(summary: string, metrics: MetricResult[]) {
         summary += `- Views: ${metric.metrics?.viewsCount?.toLocaleString() || 0}\n`
         summary += `- Unique Visitors: ${metric.metrics?.uniqueVisitors?.toLocaleString() || 0}\n`
         summary += `- Clones: ${metric.metrics?.clonesCount?.toLocaleString() || 0}\n`
+        if (metric.metrics?.trafficSince) {
+            summary += `- Views since ${metric.metrics.trafficSince}: ${metric.metrics.viewsTotal?.toLocaleString() || 0}\n`
+            summary += `- Clones since ${metric.metrics.trafficSince}: ${metric.metrics.clonesTotal?.toLocaleString() || 0}\n`
+        }
         summary += `\n`
     }
 
+    return summary
+}
+
+export async function addRepoCharts(summary: string, metrics: MetricResult<GitHubMetrics>[]) {
     summary += `\n\n`
 
     const chatOutputPath = './charts/github'
-    mkdirSync(chatOutputPath, { recursive: true })
+    ensureOutputDir(chatOutputPath)
     const svgOutputPathList = await createGitHubReleaseChart(metrics, chatOutputPath)
     for (const svgOutputPath of svgOutputPathList) {
         summary += `![${svgOutputPath}](${svgOutputPath})\n`
@@ -101,11 +112,11 @@ export async function addRepoDetails(summary: string, metrics: MetricResult[]) {
     return summary
 }
 
-export async function createGitHubReleaseChart(platformMetrics: MetricResult[], outputPath: string) {
+export async function createGitHubReleaseChart(platformMetrics: MetricResult<GitHubMetrics>[], outputPath: string) {
     const svgOutputPathList = []
     for (const metric of platformMetrics) {
         // Only create charts if there's download data
-        if (metric.metrics?.downloadRange && metric.metrics.downloadRange.length > 0) {
+        if (metric.metrics?.downloadsRange && metric.metrics.downloadsRange.length > 0) {
             const svgOutputPath = await createDownloadsPerReleaseChart(metric, outputPath)
             svgOutputPathList.push(svgOutputPath)
             const svgOutputPathCumulative = await createCumulativeDownloadsChart(metric, outputPath)
@@ -113,6 +124,11 @@ export async function createGitHubReleaseChart(platformMetrics: MetricResult[],
             const svgOutputPathReleases = await createReleaseDownloadsChart(metric, outputPath)
             svgOutputPathList.push(svgOutputPathReleases)
         }
+        // Traffic charts need more than the single day a first run may have
+        if (metric.metrics?.trafficRange && metric.metrics.trafficRange.length > 1) {
+            svgOutputPathList.push(await createTrafficByMonthChart(metric, outputPath))
+            svgOutputPathList.push(await createCumulativeTrafficChart(metric, outputPath))
+        }
     }
 
     return svgOutputPathList
@@ -145,8 +161,8 @@ function groupByReleaseCumulative(releaseRange: { day: string, downloads: number
     return releases
 }
 
-export async function createDownloadsPerReleaseChart(metric: MetricResult, outputPath: string): Promise<string> {
-    const downloadsRange = metric.metrics?.downloadRange || []
+export async function createDownloadsPerReleaseChart(metric: MetricResult<GitHubMetrics>, outputPath: string): Promise<string> {
+    const downloadsRange = metric.metrics?.downloadsRange || []
     const svgOutputPath = `${outputPath}/${metric.name.replace('/', '-')}-release-downloads.svg`
 
     const sortedReleases = downloadsRange.sort((a: { tagName?: string }, b: { tagName?: string }) => {
@@ -201,14 +217,14 @@ export async function createDownloadsPerReleaseChart(metric: MetricResult, outpu
         }
     );
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath
 }
 
-export async function createCumulativeDownloadsChart(metric: MetricResult, outputPath: string): Promise<string> {
-    const downloadsRange = metric.metrics?.downloadRange || []
+export async function createCumulativeDownloadsChart(metric: MetricResult<GitHubMetrics>, outputPath: string): Promise<string> {
+    const downloadsRange = metric.metrics?.downloadsRange || []
     const svgOutputPath = `${outputPath}/${metric.name.replace('/', '-')}-cumulative-release-downloads.svg`
 
     const groupedDownloads = groupByReleaseCumulative(downloadsRange)
@@ -268,14 +284,14 @@ export async function createCumulativeDownloadsChart(metric: MetricResult, outpu
         }
     );
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath    
 }
 
-export async function createReleaseDownloadsChart(metric: MetricResult, outputPath: string): Promise<string> {
-    const downloadsRange = metric.metrics?.downloadRange || []
+export async function createReleaseDownloadsChart(metric: MetricResult<GitHubMetrics>, outputPath: string): Promise<string> {
+    const downloadsRange = metric.metrics?.downloadsRange || []
     const svgOutputPath = `${outputPath}/${metric.name.replace('/', '-')}-top-release-downloads.svg`
 
     // Sort releases by date (newest first for display)
@@ -338,7 +354,174 @@ export async function createReleaseDownloadsChart(metric: MetricResult, outputPa
         }
     );
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
+
+
+function groupTrafficByMonth(trafficRange: GitHubTrafficDay[]) {
+    const months: Record<string, { views: number, clones: number }> = {}
+    for (const day of trafficRange) {
+        const month = day.day.slice(0, 7)
+        if (!months[month]) {
+            months[month] = { views: 0, clones: 0 }
+        }
+        months[month].views += day.views
+        months[month].clones += day.clones
+    }
+    return months
+}
+
+export async function createTrafficByMonthChart(metric: MetricResult<GitHubMetrics>, outputPath: string): Promise<string> {
+    const trafficRange: GitHubTrafficDay[] = metric.metrics?.trafficRange || []
+    const svgOutputPath = `${outputPath}/${metric.name.replace('/', '-')}-traffic-by-month.svg`
+
+    const months = groupTrafficByMonth(trafficRange)
+    const sortedMonths = Object.keys(months).sort()
+
+    // Each mark sits on top of the bar of the series it was found in
+    const anomalies = detectAnomalies(metric)
+    const toMonth = (day: string) => day.slice(0, 7)
+    const viewMarkers = anomalyMarkers(sortedMonths, sortedMonths.map(month => months[month].views), anomalies.filter(anomaly => anomaly.series === 'views'), toMonth)
+    const cloneMarkers = anomalyMarkers(sortedMonths, sortedMonths.map(month => months[month].clones), anomalies.filter(anomaly => anomaly.series === 'clones'), toMonth)
+    const markers = viewMarkers || cloneMarkers
+        ? sortedMonths.map((_, index) => Math.max(viewMarkers?.[index] ?? -1, cloneMarkers?.[index] ?? -1))
+            .map(marker => marker < 0 ? null : marker)
+        : undefined
+
+    const canvas = new Canvas(1000, 800);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'bar',
+            data: {
+                labels: sortedMonths.map(month => new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })),
+                datasets: [{
+                    label: 'Views',
+                    data: sortedMonths.map(month => months[month].views),
+                    backgroundColor: 'rgba(54, 162, 235, 0.8)',
+                    borderColor: 'rgba(54, 162, 235, 1)',
+                    borderWidth: 1,
+                }, {
+                    label: 'Clones',
+                    data: sortedMonths.map(month => months[month].clones),
+                    backgroundColor: 'rgba(255, 159, 64, 0.8)',
+                    borderColor: 'rgba(255, 159, 64, 1)',
+                    borderWidth: 1,
+                }, ...(markers ? [anomalyDataset(markers)] : [])]
+            },
+            options: {
+                responsive: true,
+                plugins: {
+                    title: {
+                        display: true,
+                        text: `${metric.name} - Views and Clones by Month`,
+                        font: {
+                            size: 16
+                        }
+                    },
+                    legend: {
+                        display: true
+                    }
+                },
+                scales: {
+                    x: {
+                        title: {
+                            display: true,
+                            text: 'Month'
+                        }
+                    },
+                    y: {
+                        title: {
+                            display: true,
+                            text: 'Count'
+                        },
+                        beginAtZero: true
+                    }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
+
+export async function createCumulativeTrafficChart(metric: MetricResult<GitHubMetrics>, outputPath: string): Promise<string> {
+    const trafficRange: GitHubTrafficDay[] = metric.metrics?.trafficRange || []
+    const svgOutputPath = `${outputPath}/${metric.name.replace('/', '-')}-cumulative-traffic.svg`
+
+    let views = 0
+    let clones = 0
+    const cumulative = trafficRange.map(day => {
+        views += day.views
+        clones += day.clones
+        return { day: day.day, views, clones }
+    })
+
+    const canvas = new Canvas(1000, 800);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'line',
+            data: {
+                labels: cumulative.map(day => day.day),
+                datasets: [{
+                    label: 'Views',
+                    data: cumulative.map(day => day.views),
+                    backgroundColor: 'rgba(54, 162, 235, 0.2)',
+                    borderColor: 'rgba(54, 162, 235, 1)',
+                    borderWidth: 3,
+                    fill: true,
+                    tension: 0.1
+                }, {
+                    label: 'Clones',
+                    data: cumulative.map(day => day.clones),
+                    backgroundColor: 'rgba(255, 159, 64, 0.2)',
+                    borderColor: 'rgba(255, 159, 64, 1)',
+                    borderWidth: 3,
+                    fill: true,
+                    tension: 0.1
+                }]
+            },
+            options: {
+                responsive: true,
+                plugins: {
+                    title: {
+                        display: true,
+                        text: `${metric.name} - Cumulative Views and Clones`,
+                        font: {
+                            size: 16
+                        }
+                    },
+                    legend: {
+                        display: true
+                    }
+                },
+                scales: {
+                    x: {
+                        title: {
+                            display: true,
+                            text: 'Date'
+                        }
+                    },
+                    y: {
+                        title: {
+                            display: true,
+                            text: 'Count'
+                        },
+                        beginAtZero: true
+                    }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath
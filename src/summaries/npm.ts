@@ -1,19 +1,24 @@
-import { mkdirSync, writeFileSync } from 'node:fs';
-import type { MetricResult } from "../collectors/types.js";
+import { ensureOutputDir, writeOutputFile } from '../output.js';
+import type { MetricResult, NpmMetrics, NpmVersionDownloads } from "../collectors/types.js";
+import { anomalyDataset, anomalyMarkers, detectAnomalies } from '../anomalies.js';
+import { deltaCell, deltaDivider, deltaHeader, totalDeltaCell } from '../deltas.js';
+import { analyzeSeasonality, createWeekdayChart, formatSeasonality } from './seasonality.js';
+import { formatCount } from '../policy.js';
+import { forecastCell, forecastChartData, forecastDivider, forecastDownloads, forecastHeader, formatForecastNotes, totalForecastCell } from '../forecast.js';
 import { Chart, registerables } from 'chart.js';
 import { Canvas } from 'skia-canvas';
 
 // Register all Chart.js controllers
 Chart.register(...registerables);
 
-export function formatNpmSummary(summary: string, platformMetrics: MetricResult[]): string {
+export function formatNpmSummary(summary: string, platformMetrics: MetricResult<NpmMetrics>[]): string {
     let totalDownloads = 0
     let totalMonthlyDownloads = 0
     let totalWeeklyDownloads = 0
     let totalDailyDownloads = 0
 
-    summary += `| Package | Downloads | Monthly Downloads | Weekly Downloads | Daily Downloads |\n`
-    summary += `| --- | --- | --- | --- | --- |\n`
+    summary += `| Package | Downloads |${deltaHeader('Downloads')} Monthly Downloads | Weekly Downloads | Daily Downloads |${forecastHeader()}\n`
+    summary += `| --- | --- |${deltaDivider()} --- | --- | --- |${forecastDivider()}\n`
     for (const metric of platformMetrics) {
         const downloads = metric.metrics?.downloadsTotal || 0
         const monthlyDownloads = metric.metrics?.downloadsMonthly || 0
@@ -25,18 +30,23 @@ export function formatNpmSummary(summary: string, platformMetrics: MetricResult[
         totalWeeklyDownloads += weeklyDownloads
         totalDailyDownloads += dailyDownloads
 
-        summary += `| ${metric.name} | ${downloads.toLocaleString()} | ${monthlyDownloads.toLocaleString()} | ${weeklyDownloads.toLocaleString()} | ${dailyDownloads.toLocaleString()} |\n`
+        summary += `| ${metric.displayName || metric.name} | ${formatCount(metric, downloads)} |${deltaCell(metric, 'downloadsTotal')} ${formatCount(metric, monthlyDownloads)} | ${formatCount(metric, weeklyDownloads)} | ${formatCount(metric, dailyDownloads)} |${forecastCell(metric)}\n`
     }
-    summary += `| **Total** | **${totalDownloads.toLocaleString()}** | **${totalMonthlyDownloads.toLocaleString()}** | **${totalWeeklyDownloads.toLocaleString()}** | **${totalDailyDownloads.toLocaleString()}** | | | | |\n`
+    summary += `| **Total** | **${totalDownloads.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'downloadsTotal')} **${totalMonthlyDownloads.toLocaleString()}** | **${totalWeeklyDownloads.toLocaleString()}** | **${totalDailyDownloads.toLocaleString()}** |${totalForecastCell(platformMetrics)} | | | |\n`
+    summary += formatForecastNotes(platformMetrics)
     return summary
 }
 
+function monthLabel(day: string) {
+    return new Date(day).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+}
+
 // Convert a list of dates into a list of Months
 function groupByMonth(dateRange: { day: string, downloads: number }[]) {
     const months: Record<string, number> = {}
 
     for (const range of dateRange) {
-        const month = new Date(range.day).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+        const month = monthLabel(range.day)
         if (!months[month]) {
             months[month] = range.downloads
         } else {
@@ -69,10 +79,18 @@ function groupByMonthCumulative(dateRange: { day: string, downloads: number }[])
     return months
 }
 
-export async function createDownloadsPerMonthChart(metric: MetricResult, outputPath: string): Promise<string> {
+// Scoped packages (@scope/name) become @scope-name, so every chart lands directly in the output directory
+function chartPath(outputPath: string, metric: MetricResult<NpmMetrics>, chart: string) {
+    return `${outputPath}/${metric.name.replace('/', '-')}-${chart}.svg`
+}
+
+export async function createDownloadsPerMonthChart(metric: MetricResult<NpmMetrics>, outputPath: string): Promise<string> {
     const downloadsRange = metric.metrics?.downloadsRange || []
-    const svgOutputPath = `${outputPath}/${metric.name}-new-downloads-by-month.svg`
+    const svgOutputPath = chartPath(outputPath, metric, 'new-downloads-by-month')
     const groupedDownloads = groupByMonth(downloadsRange)
+    const markers = anomalyMarkers(Object.keys(groupedDownloads), Object.values(groupedDownloads), detectAnomalies(metric), monthLabel)
+    const forecast = forecastDownloads(metric)
+    const projection = forecast ? forecastChartData(Object.keys(groupedDownloads), Object.values(groupedDownloads), forecast, monthLabel) : undefined
 
     const canvas = new Canvas(1000, 800);
     const chart = new Chart(
@@ -80,7 +98,7 @@ export async function createDownloadsPerMonthChart(metric: MetricResult, outputP
         {
             type: 'line',
             data: {
-                labels: Object.keys(groupedDownloads),
+                labels: projection?.labels || Object.keys(groupedDownloads),
                 datasets: [{
                     label: metric.name,
                     data: Object.values(groupedDownloads),
@@ -89,9 +107,13 @@ export async function createDownloadsPerMonthChart(metric: MetricResult, outputP
                     borderWidth: 3,
                     fill: true,
                     tension: 0.1
-                }]
+                }, ...(markers ? [anomalyDataset(markers)] : []), ...(projection?.datasets || [])]
             },
             options: {
+                plugins: {
+                    // The lower edge of the projected range has no legend entry of its own
+                    legend: { labels: { filter: item => item.text !== '' } }
+                },
                 scales: {
                     x: {
                         time: {
@@ -116,15 +138,15 @@ export async function createDownloadsPerMonthChart(metric: MetricResult, outputP
         }
     );
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath
 }
 
-export async function createCumulativeDownloadsChart(metric: MetricResult, outputPath: string): Promise<string> {
+export async function createCumulativeDownloadsChart(metric: MetricResult<NpmMetrics>, outputPath: string): Promise<string> {
     const downloadsRange = metric.metrics?.downloadsRange || []
-    const svgOutputPath = `${outputPath}/${metric.name}-cumulative-downloads.svg`
+    const svgOutputPath = chartPath(outputPath, metric, 'cumulative-downloads')
 
     const groupedDownloads = groupByMonthCumulative(downloadsRange)
 
@@ -170,7 +192,7 @@ export async function createCumulativeDownloadsChart(metric: MetricResult, outpu
         }
     );
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath    
@@ -178,21 +200,134 @@ export async function createCumulativeDownloadsChart(metric: MetricResult, outpu
 
 
 
-export async function createNpmChart(platformMetrics: MetricResult[], outputPath: string) {
+const TOP_VERSIONS = 10
+
+// Releases under 1.0.0 break compatibility on minor versions, so 0.x versions are grouped by minor
+function majorOf(version: string) {
+    const [major, minor] = version.split(/[.-]/)
+    return major === '0' ? `0.${minor}` : major
+}
+
+function compareMajors(a: string, b: string) {
+    const [aMajor, aMinor = 0] = a.split('.').map(Number)
+    const [bMajor, bMinor = 0] = b.split('.').map(Number)
+    return aMajor - bMajor || aMinor - bMinor
+}
+
+/**
+ * Last week's downloads summed per major version, oldest major first
+ */
+export function downloadsByMajor(versionDownloads: NpmVersionDownloads[]) {
+    const majors: Record<string, number> = {}
+    for (const entry of versionDownloads) {
+        const major = majorOf(entry.version)
+        majors[major] = (majors[major] || 0) + entry.downloads
+    }
+    return Object.entries(majors)
+        .sort(([a], [b]) => compareMajors(a, b))
+        .map(([major, downloads]) => ({ major, downloads }))
+}
+
+function formatShare(downloads: number, total: number) {
+    return `${total > 0 ? (downloads / total * 100).toFixed(1) : '0.0'}%`
+}
+
+export async function createVersionAdoptionChart(metric: MetricResult<NpmMetrics>, outputPath: string): Promise<string> {
+    const majors = downloadsByMajor(metric.metrics?.versionDownloads || [])
+    const total = majors.reduce((sum, entry) => sum + entry.downloads, 0)
+    const svgOutputPath = chartPath(outputPath, metric, 'version-adoption')
+
+    const canvas = new Canvas(1000, 800);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'bar',
+            data: {
+                labels: majors.map(entry => `v${entry.major}`),
+                datasets: [{
+                    label: `${metric.name} downloads in the last 7 days (${total.toLocaleString()})`,
+                    data: majors.map(entry => total > 0 ? Math.round(entry.downloads / total * 1000) / 10 : 0),
+                    backgroundColor: 'rgba(75, 192, 192, 0.6)',
+                    borderColor: 'rgba(75, 192, 192, 1)',
+                    borderWidth: 1
+                }]
+            },
+            options: {
+                plugins: {
+                    title: { display: true, text: `${metric.name} version adoption` }
+                },
+                scales: {
+                    x: { title: { display: true, text: 'Major version' } },
+                    y: { min: 0, max: 100, title: { display: true, text: 'Share of downloads (%)' } }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
+
+/**
+ * Per-package details: the weekly download pattern and, per version, the share of last week's downloads
+ * still on older majors, the top versions and an adoption chart per major
+ */
+export async function addNpmDetails(summary: string, platformMetrics: MetricResult<NpmMetrics>[]): Promise<string> {
+    const outputPath = './charts/npm'
+    ensureOutputDir(outputPath)
+    summary += `#### Package Details:\n\n`
+    for (const metric of platformMetrics) {
+        if (metric.error) continue
+        const seasonality = analyzeSeasonality(metric)
+        const versionDownloads: NpmVersionDownloads[] = metric.metrics?.versionDownloads || []
+        summary += `**${metric.displayName || metric.name}**:\n`
+        if (seasonality) summary += `- Seasonality: ${formatSeasonality(seasonality)}\n`
+        if (versionDownloads.length === 0) {
+            summary += `\n`
+            continue
+        }
+
+        const total = versionDownloads.reduce((sum, entry) => sum + entry.downloads, 0)
+        const majors = downloadsByMajor(versionDownloads)
+        const latestMajor = majors[majors.length - 1]
+        summary += `- Downloads in the last 7 days: ${total.toLocaleString()} across ${versionDownloads.length.toLocaleString()} versions\n`
+        if (majors.length > 1) {
+            const older = total - latestMajor.downloads
+            summary += `- On majors before v${latestMajor.major}: ${older.toLocaleString()} (${formatShare(older, total)})\n`
+        }
+        summary += `\n| Version | Published | Downloads (7 days) | Share |\n`
+        summary += `| --- | --- | --- | --- |\n`
+        const top = [...versionDownloads].sort((a, b) => b.downloads - a.downloads).slice(0, TOP_VERSIONS)
+        for (const entry of top) {
+            summary += `| ${entry.version} | ${entry.day ? entry.day.slice(0, 10) : 'N/A'} | ${entry.downloads.toLocaleString()} | ${formatShare(entry.downloads, total)} |\n`
+        }
+        const svgOutputPath = await createVersionAdoptionChart(metric, outputPath)
+        summary += `\n![${svgOutputPath}](${svgOutputPath})\n\n`
+    }
+    return summary
+}
+
+export async function createNpmChart(platformMetrics: MetricResult<NpmMetrics>[], outputPath: string) {
     const svgOutputPathList = []
     for (const metric of platformMetrics) {
         const svgOutputPath = await createDownloadsPerMonthChart(metric, outputPath)
         svgOutputPathList.push(svgOutputPath)
         const svgOutputPathCumulative = await createCumulativeDownloadsChart(metric, outputPath)
         svgOutputPathList.push(svgOutputPathCumulative)
+        const seasonality = analyzeSeasonality(metric)
+        if (seasonality) {
+            svgOutputPathList.push(await createWeekdayChart(metric, seasonality, chartPath(outputPath, metric, 'downloads-by-weekday')))
+        }
     }
 
     return svgOutputPathList
 }
 
-export async function addNpmDetails(summary: string, platformMetrics: MetricResult[]): Promise<string> {
+export async function addNpmCharts(summary: string, platformMetrics: MetricResult<NpmMetrics>[]): Promise<string> {
     const outputPath = './charts/npm'
-    mkdirSync(outputPath, { recursive: true })
+    ensureOutputDir(outputPath)
     const svgOutputPathList = await createNpmChart(platformMetrics, outputPath)
     for (const svgOutputPath of svgOutputPathList) {
         summary += `![${svgOutputPath}](${svgOutputPath})\n`
@@ -1,50 +1,75 @@
-import { mkdirSync, writeFileSync } from "fs"
-import type { MetricResult } from "../collectors/types.js"
+import { ensureOutputDir, writeOutputFile } from "../output.js"
+import type { MetricResult, PowerShellMetrics } from "../collectors/types.js"
+import { deltaCell, deltaDivider, deltaHeader, totalDeltaCell } from "../deltas.js"
+import { formatCount } from "../policy.js"
 import { Chart, registerables } from 'chart.js';
 import { Canvas } from 'skia-canvas';
 
 // Register all Chart.js controllers
 Chart.register(...registerables);
 
-export function formatPowerShellSummary(summary: string, platformMetrics: MetricResult[]): string {
+// Derived counts are null until enough runs have been recorded
+function formatDerived(value: number | null | undefined) {
+    return typeof value === 'number' ? value.toLocaleString() : 'N/A'
+}
+
+export function formatPowerShellSummary(summary: string, platformMetrics: MetricResult<PowerShellMetrics>[]): string {
     let platformDownloadTotal = 0
+    let totalMonthlyDownloads = 0
+    let totalWeeklyDownloads = 0
+    let totalDailyDownloads = 0
     let totalVersions = 0
     
-    summary += `| Module | Total Downloads | Latest Version | Version Downloads | Versions | Last Updated |\n`
-    summary += `| --- | --- | --- | --- | --- | --- |\n`
+    summary += `| Module | Total Downloads |${deltaHeader('Downloads')} Monthly Downloads | Weekly Downloads | Daily Downloads | Latest Version | Version Downloads | Versions | Last Updated |\n`
+    summary += `| --- | --- |${deltaDivider()} --- | --- | --- | --- | --- | --- | --- |\n`
     for (const metric of platformMetrics) {
         const lastUpdated = metric.metrics?.lastUpdated ? new Date(metric.metrics.lastUpdated).toLocaleDateString() : 'N/A'
         const latestVersion = metric.metrics?.latestVersion || 'N/A'
         const latestVersionDownloads = metric.metrics?.latestVersionDownloads || 0
         const versionCount = metric.metrics?.versionCount || 0
         
-        summary += `| ${metric.name} | ${metric.metrics?.downloadsTotal?.toLocaleString() || 0} | ${latestVersion} | ${latestVersionDownloads.toLocaleString()} | ${versionCount} | ${lastUpdated} |\n`
+        summary += `| ${metric.displayName || metric.name} | ${formatCount(metric, metric.metrics?.downloadsTotal)} |${deltaCell(metric, 'downloadsTotal')} ${metric.error ? '—' : formatDerived(metric.metrics?.downloadsMonthly)} | ${metric.error ? '—' : formatDerived(metric.metrics?.downloadsWeekly)} | ${metric.error ? '—' : formatDerived(metric.metrics?.downloadsDaily)} | ${latestVersion} | ${formatCount(metric, latestVersionDownloads)} | ${formatCount(metric, versionCount)} | ${lastUpdated} |\n`
         platformDownloadTotal += metric.metrics?.downloadsTotal || 0
+        totalMonthlyDownloads += metric.metrics?.downloadsMonthly || 0
+        totalWeeklyDownloads += metric.metrics?.downloadsWeekly || 0
+        totalDailyDownloads += metric.metrics?.downloadsDaily || 0
         totalVersions += versionCount
     }
-    summary += `| **Total** | **${platformDownloadTotal.toLocaleString()}** | | | **${totalVersions}** | |\n`
+    summary += `| **Total** | **${platformDownloadTotal.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'downloadsTotal')} **${totalMonthlyDownloads.toLocaleString()}** | **${totalWeeklyDownloads.toLocaleString()}** | **${totalDailyDownloads.toLocaleString()}** | | | **${totalVersions}** | |\n`
+
+    if (platformMetrics.some(metric => !metric.error && metric.metrics?.downloadsDaily == null)) {
+        summary += `\nThe PowerShell Gallery only reports cumulative counts, so monthly, weekly and daily downloads are derived from the counts recorded by earlier runs and show N/A until those exist.\n`
+    }
 
     return summary
 }
 
-export async function addPowerShellDetails(summary: string, platformMetrics: MetricResult[]): Promise<string> {
+export function addPowerShellDetails(summary: string, platformMetrics: MetricResult<PowerShellMetrics>[]): string {
     summary += `#### PowerShell Module Details:\n\n`
     
     for (const metric of platformMetrics) {
-        summary += `**${metric.name}**:\n`
+        summary += `**${metric.displayName || metric.name}**:\n`
         summary += `- Total Downloads: ${metric.metrics?.downloadsTotal?.toLocaleString() || 0}\n`
         summary += `- Latest Version: ${metric.metrics?.latestVersion || 'N/A'}\n`
         summary += `- Latest Version Downloads: ${metric.metrics?.latestVersionDownloads?.toLocaleString() || 0}\n`
+        const latestWeekly = metric.metrics?.versionDownloadsWeekly?.[metric.metrics?.latestVersion]
+        if (latestWeekly !== undefined) {
+            summary += `- Latest Version Downloads (last 7 days): ${latestWeekly.toLocaleString()}\n`
+        }
         summary += `- Version Count: ${metric.metrics?.versionCount || 0}\n`
         summary += `- Last Updated: ${metric.metrics?.lastUpdated ? new Date(metric.metrics.lastUpdated).toLocaleDateString() : 'N/A'}\n`
         summary += `- Package Size: ${metric.metrics?.packageSize ? `${Math.round(metric.metrics.packageSize / 1024)} KB` : 'N/A'}\n`
         summary += `\n`
     }
 
+    return summary
+}
+
+export async function addPowerShellCharts(summary: string, platformMetrics: MetricResult<PowerShellMetrics>[]): Promise<string> {
     summary += `\n\n`
 
     const chartOutputPath = './charts/powershell'
-    mkdirSync(chartOutputPath, { recursive: true })
+    ensureOutputDir(chartOutputPath)
     const svgOutputPathList = await createPowerShellCharts(platformMetrics, chartOutputPath)
     for (const svgOutputPath of svgOutputPathList) {
         summary += `![${svgOutputPath}](${svgOutputPath})\n`
@@ -52,7 +77,7 @@ export async function addPowerShellDetails(summary: string, platformMetrics: Met
     return summary
 }
 
-export async function createPowerShellCharts(platformMetrics: MetricResult[], outputPath: string) {
+export async function createPowerShellCharts(platformMetrics: MetricResult<PowerShellMetrics>[], outputPath: string) {
     const svgOutputPathList = []
     
     // Only create charts if there's download data
@@ -98,7 +123,7 @@ const borderColors = [
     'rgba(54, 162, 235, 1)'
 ];
 
-export async function createCombinedDownloadsChart(metrics: MetricResult[], outputPath: string): Promise<string> {
+export async function createCombinedDownloadsChart(metrics: MetricResult<PowerShellMetrics>[], outputPath: string): Promise<string> {
     const svgOutputPath = `${outputPath}/powershell-combined-downloads.svg`
     
     // Get all unique dates across all modules for the x-axis
@@ -188,13 +213,13 @@ export async function createCombinedDownloadsChart(metrics: MetricResult[], outp
     );
     
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath
 }
 
-export async function createCombinedCumulativeDownloadsChart(metrics: MetricResult[], outputPath: string): Promise<string> {
+export async function createCombinedCumulativeDownloadsChart(metrics: MetricResult<PowerShellMetrics>[], outputPath: string): Promise<string> {
     const svgOutputPath = `${outputPath}/powershell-cumulative-downloads.svg`
     
     // Get all unique dates across all modules for the x-axis
@@ -281,7 +306,7 @@ export async function createCombinedCumulativeDownloadsChart(metrics: MetricResu
     );
     
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
-    writeFileSync(svgOutputPath, svgBuffer);
+    writeOutputFile(svgOutputPath, svgBuffer);
     chart.destroy();
 
     return svgOutputPath
@@ -0,0 +1,138 @@
+import { ensureOutputDir, writeOutputFile } from '../output.js';
+import { isPlatformResult, type DownloadsRangeEntry, type MetricResult } from "../collectors/types.js";
+import { Chart, registerables } from 'chart.js';
+import { Canvas } from 'skia-canvas';
+
+// Register all Chart.js controllers
+Chart.register(...registerables);
+
+interface Product {
+    name: string;
+    metrics: MetricResult[];
+}
+
+const palette = ['#2563eb', '#16a34a', '#f59e0b', '#ef4444', '#7c3aed', '#0891b2', '#dc2626', '#0ea5e9']
+
+/**
+ * Sources grouped into products by their `group` option, in the order each product first appears.
+ * Failed sources are left out so they do not count as zero downloads.
+ */
+export function groupProducts(metrics: MetricResult[]): Product[] {
+    const products = new Map<string, MetricResult[]>()
+    for (const metric of metrics) {
+        if (!metric.group || metric.error) continue
+        products.set(metric.group, [...(products.get(metric.group) || []), metric])
+    }
+    return Array.from(products.entries()).map(([name, metrics]) => ({ name, metrics }))
+}
+
+/**
+ * Downloads per day of a result, where it has a daily series: `downloadsRange` for npm, PyPI and
+ * custom platforms, `dailyDownloadsRange` for PowerShell. GitHub release downloads are keyed by
+ * publish date rather than by day, so GitHub sources have none.
+ */
+export function dailyDownloads(metric: MetricResult): { day: string; downloads: number }[] {
+    const dailyDownloadsRange = isPlatformResult(metric, 'PowerShell') ? metric.metrics?.dailyDownloadsRange || [] : []
+    if (dailyDownloadsRange.length > 0) return dailyDownloadsRange
+    const downloadsRange: DownloadsRangeEntry[] = metric.metrics?.downloadsRange || []
+    return downloadsRange.every(entry => entry.tagName === undefined && entry.version === undefined) ? downloadsRange : []
+}
+
+function monthLabel(month: string) {
+    return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })
+}
+
+function formatShare(downloads: number, total: number) {
+    return total > 0 ? `${downloads.toLocaleString()} (${Math.round(downloads / total * 100)}%)` : downloads.toLocaleString()
+}
+
+export async function createProductDownloadsChart(products: Product[], outputPath: string): Promise<string | undefined> {
+    const svgOutputPath = `${outputPath}/product-downloads-by-month.svg`
+    const monthly = products.map(product => {
+        const months: Record<string, number> = {}
+        for (const metric of product.metrics) {
+            for (const entry of dailyDownloads(metric)) {
+                const month = entry.day.slice(0, 7)
+                months[month] = (months[month] || 0) + entry.downloads
+            }
+        }
+        return months
+    })
+    const months = Array.from(new Set(monthly.flatMap(months => Object.keys(months)))).sort()
+    if (months.length === 0) return undefined
+
+    const canvas = new Canvas(1000, 800);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'line',
+            data: {
+                labels: months.map(monthLabel),
+                datasets: products.map((product, index) => ({
+                    label: product.name,
+                    data: months.map(month => monthly[index][month] || 0),
+                    borderColor: palette[index % palette.length],
+                    backgroundColor: palette[index % palette.length] + '99',
+                    borderWidth: 2,
+                    pointRadius: 0,
+                    // Each product is stacked on the one before it
+                    fill: index === 0 ? 'origin' : '-1',
+                    tension: 0.1
+                }))
+            },
+            options: {
+                plugins: {
+                    legend: { display: true, position: 'bottom' },
+                    title: { display: true, text: 'Downloads per month by product' }
+                },
+                scales: {
+                    x: { title: { display: true, text: 'Month' } },
+                    y: { stacked: true, title: { display: true, text: 'Downloads per month' } }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
+
+/**
+ * The "Products" section: combined downloads of every product across platforms, each platform's
+ * share, and a stacked chart of downloads per month. Empty when no source has a `group`.
+ */
+export async function formatProductSummary(metrics: MetricResult[]): Promise<string> {
+    const products = groupProducts(metrics)
+    if (products.length === 0) return ''
+    const platforms = metrics.filter(metric => metric.group && !metric.error).map(metric => metric.platform).filter((value, index, self) => self.indexOf(value) === index)
+
+    let summary = `### Products\n\n`
+    summary += `| Product | Downloads |${platforms.map(platform => ` ${platform} |`).join('')}\n`
+    summary += `| --- | --- |${platforms.map(() => ` --- |`).join('')}\n`
+    let totalDownloads = 0
+    const platformTotals: Record<string, number> = {}
+    for (const product of products) {
+        const byPlatform: Record<string, number> = {}
+        for (const metric of product.metrics) {
+            byPlatform[metric.platform] = (byPlatform[metric.platform] || 0) + (metric.metrics?.downloadsTotal || 0)
+        }
+        const downloads = Object.values(byPlatform).reduce((sum, value) => sum + value, 0)
+        totalDownloads += downloads
+        for (const [platform, value] of Object.entries(byPlatform)) {
+            platformTotals[platform] = (platformTotals[platform] || 0) + value
+        }
+        summary += `| ${product.name} | ${downloads.toLocaleString()} |${platforms.map(platform => ` ${platform in byPlatform ? formatShare(byPlatform[platform], downloads) : '—'} |`).join('')}\n`
+    }
+    summary += `| **Total** | **${totalDownloads.toLocaleString()}** |${platforms.map(platform => ` **${formatShare(platformTotals[platform] || 0, totalDownloads)}** |`).join('')}\n`
+    summary += `\nDownloads are each source's total; GitHub counts release asset downloads. The chart stacks the daily downloads of npm, PyPI and PowerShell sources, so GitHub releases are not included in it.\n\n`
+
+    const outputPath = './charts/products'
+    ensureOutputDir(outputPath)
+    const svgOutputPath = await createProductDownloadsChart(products, outputPath)
+    if (svgOutputPath) {
+        summary += `![${svgOutputPath}](${svgOutputPath})\n`
+    }
+    return summary + `\n`
+}
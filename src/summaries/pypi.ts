@@ -1,17 +1,23 @@
-import { mkdirSync, writeFileSync } from 'node:fs'
-import type { MetricResult } from "../collectors/types.js"
+import { ensureOutputDir, writeOutputFile } from '../output.js'
+import type { MetricResult, PypiMetrics } from "../collectors/types.js"
+import { anomalyDataset, anomalyMarkers, detectAnomalies } from '../anomalies.js'
+import { deltaCell, deltaDivider, deltaHeader, totalDeltaCell } from '../deltas.js'
+import { analyzeSeasonality, createWeekdayChart, formatSeasonality } from './seasonality.js'
+import { formatCount } from '../policy.js'
+import { forecastCell, forecastChartData, forecastDivider, forecastDownloads, forecastHeader, formatForecastNotes, totalForecastCell } from '../forecast.js'
 import { Chart, registerables } from 'chart.js'
 import { Canvas } from 'skia-canvas'
 
 Chart.register(...registerables)
 
-export function formatPypiSummary(summary: string, platformMetrics: MetricResult[]): string {
-    summary += `| Package | Total Downloads | Monthly Downloads | Weekly Downloads | Daily Downloads | Version |\n`
-    summary += `| --- | --- | --- | --- | --- | --- |\n`
+export function formatPypiSummary(summary: string, platformMetrics: MetricResult<PypiMetrics>[]): string {
+    summary += `| Package | Total Downloads |${deltaHeader('Downloads')} Monthly Downloads | Weekly Downloads | Daily Downloads | Version |${forecastHeader()}\n`
+    summary += `| --- | --- |${deltaDivider()} --- | --- | --- | --- |${forecastDivider()}\n`
     for (const metric of platformMetrics) {
-        summary += `| ${metric.name} | ${metric.metrics?.downloadsTotal?.toLocaleString() || 0} | ${metric.metrics?.downloadsMonthly?.toLocaleString() || 0} | ${metric.metrics?.downloadsWeekly?.toLocaleString() || 0} | ${metric.metrics?.downloadsDaily?.toLocaleString() || 0} | ${metric.metrics?.version || 'N/A'} |\n`
+        summary += `| ${metric.displayName || metric.name} | ${formatCount(metric, metric.metrics?.downloadsTotal)} |${deltaCell(metric, 'downloadsTotal')} ${formatCount(metric, metric.metrics?.downloadsMonthly)} | ${formatCount(metric, metric.metrics?.downloadsWeekly)} | ${formatCount(metric, metric.metrics?.downloadsDaily)} | ${metric.metrics?.version || 'N/A'} |${forecastCell(metric)}\n`
     }
-    summary += `| **Total** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsTotal || 0), 0).toLocaleString()}** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsMonthly || 0), 0).toLocaleString()}** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsWeekly || 0), 0).toLocaleString()}** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsDaily || 0), 0).toLocaleString()}** | | |\n`
+    summary += `| **Total** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsTotal || 0), 0).toLocaleString()}** |${totalDeltaCell(platformMetrics, 'downloadsTotal')} **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsMonthly || 0), 0).toLocaleString()}** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsWeekly || 0), 0).toLocaleString()}** | **${platformMetrics.reduce((sum, m) => sum + (m.metrics?.downloadsDaily || 0), 0).toLocaleString()}** | |${totalForecastCell(platformMetrics)}\n`
+    summary += formatForecastNotes(platformMetrics)
     return summary
 }
 
@@ -57,11 +63,14 @@ function aggregateMonthlyByCategory(points: { date: string, category: string, do
     return { labelsIso, labels, categoryMap }
 }
 
-async function createOverallDownloadsChart(metric: MetricResult, outputPath: string) {
+async function createOverallDownloadsChart(metric: MetricResult<PypiMetrics>, outputPath: string) {
     // Prefer server-prepared chart JSON if present
     const server = metric.metrics?.overallChart as { labels?: string[], datasets?: { label: string, data: number[] }[] } | undefined
     let labels: string[]
     let datasets: { label: string, data: number[], borderColor?: string, backgroundColor?: string, borderWidth?: number, fill?: boolean, tension?: number }[]
+    // Anomalies and the projection are for `downloadsRange`, the series with or without mirrors as configured, so they attach to that line
+    let markedData: number[]
+    let bucketOf: (day: string) => string
     if (server && server.labels && server.labels.length && server.datasets && server.datasets.length) {
         labels = server.labels
         const colorFor = (label?: string, idx?: number) => {
@@ -83,6 +92,8 @@ async function createOverallDownloadsChart(metric: MetricResult, outputPath: str
                 tension: 0.1,
             }
         })
+        markedData = (server.datasets.find(ds => /without/i.test(ds.label) !== Boolean(metric.metrics?.includesMirrors)) || server.datasets[0]).data
+        bucketOf = /^\d{4}-\d{2}-\d{2}/.test(labels[0]) ? day => day.slice(0, 10) : day => displayMonthLabel(toIsoMonth(day))
     } else {
         const series = (metric.metrics?.overallSeries as { date: string, category: string, downloads: number }[] | undefined) || []
         const agg = aggregateMonthlyTotals(series.map(p => ({ date: p.date, downloads: p.downloads })))
@@ -96,15 +107,20 @@ async function createOverallDownloadsChart(metric: MetricResult, outputPath: str
             fill: true,
             tension: 0.1
         }]
+        markedData = agg.data
+        bucketOf = day => displayMonthLabel(toIsoMonth(day))
     }
+    const markers = anomalyMarkers(labels, markedData, detectAnomalies(metric), bucketOf)
+    const forecast = forecastDownloads(metric)
+    const projection = forecast ? forecastChartData(labels, markedData, forecast, bucketOf) : undefined
 
     const canvas = new Canvas(1000, 800)
     const chart = new Chart(canvas as any, {
         type: 'line',
-        data: { labels, datasets },
+        data: { labels: projection?.labels || labels, datasets: [...datasets, ...(markers ? [anomalyDataset(markers)] : []), ...(projection?.datasets || [])] },
         options: {
             plugins: {
-                legend: { display: true, position: 'bottom' },
+                legend: { display: true, position: 'bottom', labels: { filter: item => item.text !== '' } },
                 title: { display: true, text: `${metric.name} overall downloads` }
             },
             scales: {
@@ -115,13 +131,13 @@ async function createOverallDownloadsChart(metric: MetricResult, outputPath: str
     })
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' })
     const svgPath = `${outputPath}/${metric.name}-pypi-overall.svg`
-    writeFileSync(svgPath, svgBuffer)
+    writeOutputFile(svgPath, svgBuffer)
     chart.destroy()
     return svgPath
 }
 
 // Time-series: Python major over time (line)
-async function createPythonMajorChart(metric: MetricResult, outputPath: string) {
+async function createPythonMajorChart(metric: MetricResult<PypiMetrics>, outputPath: string) {
     // Prefer server chart JSON if present
     const server = metric.metrics?.pythonMajorChart as { labels?: string[], datasets?: { label: string, data: number[] }[] } | undefined
     let labels: string[]
@@ -129,8 +145,8 @@ async function createPythonMajorChart(metric: MetricResult, outputPath: string)
     if (server && server.labels && server.labels.length && server.datasets && server.datasets.length) {
         const palette = ['#2563eb', '#16a34a', '#f59e0b', '#ef4444', '#7c3aed', '#0891b2', '#dc2626', '#0ea5e9']
         labels = server.labels
+        // Unknown versions were already dropped or kept by the collector
         datasets = server.datasets
-            .filter(ds => !/unknown/i.test(ds.label))
             .map((ds, idx) => ({
                 ...ds,
                 borderColor: palette[idx % palette.length],
@@ -142,7 +158,7 @@ async function createPythonMajorChart(metric: MetricResult, outputPath: string)
         const points = (metric.metrics?.pythonMajorSeries as { date: string, category: string, downloads: number }[] | undefined) || []
         const { labelsIso, labels: lbls, categoryMap } = aggregateMonthlyByCategory(points)
         labels = lbls
-        const sortedCategories = Object.keys(categoryMap).filter(k => !/unknown/i.test(k)).sort((a, b) => Number(a) - Number(b))
+        const sortedCategories = Object.keys(categoryMap).sort((a, b) => Number(a) - Number(b))
         const palette = ['#2563eb', '#16a34a', '#f59e0b', '#ef4444', '#7c3aed', '#0891b2', '#dc2626', '#0ea5e9']
         datasets = sortedCategories.map((category, idx) => ({
             label: `Python ${category}`,
@@ -171,22 +187,35 @@ async function createPythonMajorChart(metric: MetricResult, outputPath: string)
     })
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' })
     const svgPath = `${outputPath}/${metric.name}-pypi-python-major.svg`
-    writeFileSync(svgPath, svgBuffer)
+    writeOutputFile(svgPath, svgBuffer)
     chart.destroy()
     return svgPath
 }
 
-// Time-series: Python minor over time (line)
-async function createPythonMinorChart(metric: MetricResult, outputPath: string) {
+// Time-series: Python minor over time (line), or by support status when minor versions are grouped that way
+async function createPythonMinorChart(metric: MetricResult<PypiMetrics>, outputPath: string) {
     // Prefer server chart JSON if present
     const server = metric.metrics?.pythonMinorChart as { labels?: string[], datasets?: { label: string, data: number[] }[] } | undefined
+    const supportSeries = metric.metrics?.pythonSupportSeries as { date: string, category: string, downloads: number }[] | undefined
     let labels: string[]
     let datasets: { label: string, data: number[], borderColor?: string, backgroundColor?: string, borderWidth?: number, fill?: boolean }[]
-    if (server && server.labels && server.labels.length && server.datasets && server.datasets.length) {
+    if (supportSeries) {
+        const { labelsIso, labels: lbls, categoryMap } = aggregateMonthlyByCategory(supportSeries)
+        labels = lbls
+        const colors: Record<string, string> = { 'Supported': '#16a34a', 'End of life': '#dc2626' }
+        datasets = Object.keys(categoryMap).sort().map(category => ({
+            label: category,
+            data: labelsIso.map(l => categoryMap[category][l] || 0),
+            borderColor: colors[category] || '#64748b',
+            backgroundColor: (colors[category] || '#64748b') + '33',
+            borderWidth: 2,
+            fill: false,
+        }))
+    } else if (server && server.labels && server.labels.length && server.datasets && server.datasets.length) {
         const palette = ['#1d4ed8', '#059669', '#d97706', '#dc2626', '#6d28d9', '#0e7490', '#b91c1c', '#0284c7']
         labels = server.labels
+        // Unknown versions were already dropped or kept by the collector
         datasets = server.datasets
-            .filter(ds => !/unknown/i.test(ds.label))
             .map((ds, idx) => ({
                 ...ds,
                 borderColor: palette[idx % palette.length],
@@ -198,7 +227,7 @@ async function createPythonMinorChart(metric: MetricResult, outputPath: string)
         const points = (metric.metrics?.pythonMinorSeries as { date: string, category: string, downloads: number }[] | undefined) || []
         const { labelsIso, labels: lbls, categoryMap } = aggregateMonthlyByCategory(points)
         labels = lbls
-        const sortedCategories = Object.keys(categoryMap).filter(k => !/unknown/i.test(k)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+        const sortedCategories = Object.keys(categoryMap).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
         const palette = ['#1d4ed8', '#059669', '#d97706', '#dc2626', '#6d28d9', '#0e7490', '#b91c1c', '#0284c7']
         datasets = sortedCategories.map((category, idx) => ({
             label: `Python ${category}`,
@@ -217,7 +246,7 @@ async function createPythonMinorChart(metric: MetricResult, outputPath: string)
         options: {
             plugins: {
                 legend: { position: 'bottom' },
-                title: { display: true, text: `${metric.name} downloads by Python minor version` }
+                title: { display: true, text: `${metric.name} downloads by Python ${supportSeries ? 'support status' : 'minor version'}` }
             },
             scales: {
                 x: { title: { display: true, text: 'Month' } },
@@ -227,13 +256,13 @@ async function createPythonMinorChart(metric: MetricResult, outputPath: string)
     })
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' })
     const svgPath = `${outputPath}/${metric.name}-pypi-python-minor.svg`
-    writeFileSync(svgPath, svgBuffer)
+    writeOutputFile(svgPath, svgBuffer)
     chart.destroy()
     return svgPath
 }
 
 // Time-series: Installer over time (line) - prefer server JSON
-async function createInstallerChart(metric: MetricResult, outputPath: string) {
+async function createInstallerChart(metric: MetricResult<PypiMetrics>, outputPath: string) {
     const server = metric.metrics?.installerChart as { labels?: string[], datasets?: { label: string, data: number[] }[] } | undefined
     let labels: string[]
     let datasets: { label: string, data: number[], borderColor?: string, backgroundColor?: string, borderWidth?: number, fill?: boolean }[]
@@ -280,13 +309,13 @@ async function createInstallerChart(metric: MetricResult, outputPath: string) {
     })
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' })
     const svgPath = `${outputPath}/${metric.name}-pypi-installer.svg`
-    writeFileSync(svgPath, svgBuffer)
+    writeOutputFile(svgPath, svgBuffer)
     chart.destroy()
     return svgPath
 }
 
 // Time-series: System over time (line) - prefer server JSON
-async function createSystemChart(metric: MetricResult, outputPath: string) {
+async function createSystemChart(metric: MetricResult<PypiMetrics>, outputPath: string) {
     const server = metric.metrics?.systemChart as { labels?: string[], datasets?: { label: string, data: number[] }[] } | undefined
     let labels: string[]
     let datasets: { label: string, data: number[], borderColor?: string, backgroundColor?: string, borderWidth?: number, fill?: boolean }[]
@@ -333,18 +362,18 @@ async function createSystemChart(metric: MetricResult, outputPath: string) {
     })
     const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' })
     const svgPath = `${outputPath}/${metric.name}-pypi-system.svg`
-    writeFileSync(svgPath, svgBuffer)
+    writeOutputFile(svgPath, svgBuffer)
     chart.destroy()
     return svgPath
 }
 
 // Removed static bar chart generators per request
 
-async function createPypiCharts(metrics: MetricResult[], basePath: string) {
+async function createPypiCharts(metrics: MetricResult<PypiMetrics>[], basePath: string) {
     const outputPaths: string[] = []
     for (const metric of metrics) {
         const packagePath = `${basePath}`
-        mkdirSync(packagePath, { recursive: true })
+        ensureOutputDir(packagePath)
         const overall = await createOverallDownloadsChart(metric, packagePath)
         outputPaths.push(overall)
         const pythonMajor = await createPythonMajorChart(metric, packagePath)
@@ -355,20 +384,27 @@ async function createPypiCharts(metrics: MetricResult[], basePath: string) {
         outputPaths.push(installer)
         const system = await createSystemChart(metric, packagePath)
         outputPaths.push(system)
+        const seasonality = analyzeSeasonality(metric)
+        if (seasonality) {
+            outputPaths.push(await createWeekdayChart(metric, seasonality, `${packagePath}/${metric.name}-pypi-downloads-by-weekday.svg`))
+        }
         // static bar charts removed
     }
     return outputPaths
 }
 
-export function addPypiDetails(summary: string, metrics: MetricResult[]): string {
+export function addPypiDetails(summary: string, metrics: MetricResult<PypiMetrics>[]): string {
     summary += `#### Package Details:\n\n`
     for (const metric of metrics) {
-        summary += `**${metric.name}**:\n`
+        summary += `**${metric.displayName || metric.name}**:\n`
         summary += `- Version: ${metric.metrics?.version || 'N/A'}\n`
         if (metric.metrics?.latestReleaseDate) summary += `- Released: ${metric.metrics.latestReleaseDate}\n`
         if (metric.metrics?.popularSystem) summary += `- Popular system: ${metric.metrics.popularSystem}\n`
         if (metric.metrics?.popularInstaller) summary += `- Popular installer: ${metric.metrics.popularInstaller}\n`
         summary += `- Releases: ${metric.metrics?.releases || 0}\n`
+        if (metric.metrics?.includesMirrors) summary += `- Downloads include mirrors\n`
+        const seasonality = analyzeSeasonality(metric)
+        if (seasonality) summary += `- Seasonality: ${formatSeasonality(seasonality)}\n`
         if (metric.metrics?.systemBreakdown) {
             summary += `- OS Usage Breakdown \n`
             for (const [key, value] of Object.entries(metric.metrics?.systemBreakdown)) {
@@ -381,13 +417,19 @@ export function addPypiDetails(summary: string, metrics: MetricResult[]): string
                 summary += `  - ${key}: ${value}\n`
             }
         }
+        if (metric.metrics?.pythonSupportBreakdown) {
+            summary += `- Python Support Breakdown \n`
+            for (const [key, value] of Object.entries(metric.metrics?.pythonSupportBreakdown)) {
+                summary += `  - ${key}: ${value}\n`
+            }
+        }
     }
     return summary
 }
 
-export async function addPypiCharts(summary: string, platformMetrics: MetricResult[]): Promise<string> {
+export async function addPypiCharts(summary: string, platformMetrics: MetricResult<PypiMetrics>[]): Promise<string> {
     const outputPath = './charts/pypi'
-    mkdirSync(outputPath, { recursive: true })
+    ensureOutputDir(outputPath)
     summary += `\n\n`
     const svgPaths = await createPypiCharts(platformMetrics, outputPath)
     for (const p of svgPaths) {
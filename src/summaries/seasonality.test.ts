@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import type { DownloadsRangeEntry, MetricResult } from '../collectors/types.js';
+import { analyzeSeasonality, formatSeasonality } from './seasonality.js';
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function npm(downloadsRange: DownloadsRangeEntry[]): MetricResult {
+    return { platform: 'NPM', name: 'example', timestamp: '2025-07-01T06:00:00.000Z', metrics: { downloadsTotal: 1_000, downloadsRange } }
+}
+
+// `days` days from `first`, with the downloads of each day from `downloads`
+function days(first: string, count: number, downloads: (day: string) => number): DownloadsRangeEntry[] {
+    return Array.from({ length: count }, (_, index) => addDays(first, index)).map(day => ({ day, downloads: downloads(day) }))
+}
+
+// 10 downloads on weekdays and 5 at weekends
+function workweek(day: string) {
+    return [0, 6].includes(new Date(`${day}T00:00:00Z`).getUTCDay()) ? 5 : 10
+}
+
+describe('analyzeSeasonality', () => {
+    test('shares downloads out by weekday, Monday first', () => {
+        // 2025-06-02 is a Monday
+        const seasonality = analyzeSeasonality(npm(days('2025-06-02', 28, workweek)))!
+        expect(seasonality.weekdayShare.map(share => Math.round(share * 240))).toEqual([40, 40, 40, 40, 40, 20, 20])
+        expect(seasonality.weekendRatio).toBe(2)
+        expect(seasonality.holidayDip).toBeUndefined()
+    })
+
+    test('counts only the latest whole weeks, leaving out releases', () => {
+        // Two busy days before the last four weeks, and a release tag on a Sunday
+        const range = [
+            ...days('2025-05-31', 2, () => 1_000),
+            ...days('2025-06-02', 28, workweek),
+            { day: '2025-06-08T10:00:00Z', downloads: 500, tagName: 'v1.0.0' },
+        ]
+        expect(analyzeSeasonality(npm(range))!.weekdayShare.map(share => Math.round(share * 240))).toEqual([40, 40, 40, 40, 40, 20, 20])
+    })
+
+    test('needs four weeks of downloads', () => {
+        expect(analyzeSeasonality(npm(days('2025-06-02', 27, workweek)))).toBeUndefined()
+        expect(analyzeSeasonality(npm(days('2025-06-02', 28, () => 0)))).toBeUndefined()
+        expect(analyzeSeasonality({ platform: 'NPM', name: 'failing', timestamp: '2025-07-01T06:00:00.000Z', error: 'Not found', errorKind: 'not-found' })).toBeUndefined()
+    })
+
+    test('has no weekend ratio without weekend downloads', () => {
+        const seasonality = analyzeSeasonality(npm(days('2025-06-02', 28, day => workweek(day) === 5 ? 0 : 10)))!
+        expect(seasonality.weekendRatio).toBe(Infinity)
+        expect(formatSeasonality(seasonality)).toBe('no weekend downloads, busiest on Mon (20.0%)')
+    })
+
+    test('compares Christmas to New Year with the two weeks either side', () => {
+        const range = days('2024-12-01', 62, day => day >= '2024-12-24' && day <= '2025-01-01' ? 50 : 100)
+        expect(analyzeSeasonality(npm(range))!.holidayDip).toEqual({ season: '2024/25', dip: 0.5 })
+        // Without two weeks after it, the holiday is not measured
+        expect(analyzeSeasonality(npm(range.filter(entry => entry.day <= '2025-01-14')))!.holidayDip).toBeUndefined()
+    })
+})
+
+describe('formatSeasonality', () => {
+    test('describes the weekly pattern and the holidays', () => {
+        const weekdayShare = [0.16, 0.172, 0.17, 0.168, 0.16, 0.09, 0.08]
+        expect(formatSeasonality({ weekdayShare, weekendRatio: 2.35, holidayDip: { season: '2024/25', dip: 0.45 } }))
+            .toBe('weekdays 2.4× weekends, busiest on Tue (17.2%), holiday dip 45% (2024/25)')
+        expect(formatSeasonality({ weekdayShare, weekendRatio: 2.35, holidayDip: { season: '2024/25', dip: -0.2 } }))
+            .toBe('weekdays 2.4× weekends, busiest on Tue (17.2%), 20% busier over the holidays (2024/25)')
+    })
+})
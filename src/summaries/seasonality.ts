@@ -0,0 +1,136 @@
+import { writeOutputFile } from '../output.js';
+import type { DownloadsRangeEntry, MetricResult } from "../collectors/types.js";
+import { Chart, registerables } from 'chart.js';
+import { Canvas } from 'skia-canvas';
+
+// Register all Chart.js controllers
+Chart.register(...registerables);
+
+export interface Seasonality {
+    /** Share of downloads on each weekday, Monday first */
+    weekdayShare: number[];
+    /** Average downloads on a weekday divided by the average on a weekend day */
+    weekendRatio: number;
+    /** How far downloads fell over the latest Christmas to New Year period, compared with the two weeks either side */
+    holidayDip?: { season: string; dip: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+// A year of whole weeks, so every weekday is counted equally
+const MAX_DAYS = 52 * 7
+const MIN_DAYS = 4 * 7
+const HOLIDAY_MARGIN_DAYS = 14
+
+function addDays(day: string, days: number) {
+    return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Monday is 0
+function weekdayIndex(day: string) {
+    return (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7
+}
+
+function average(series: Map<string, number>, from: string, to: string) {
+    let total = 0
+    let days = 0
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+        const downloads = series.get(day)
+        if (downloads === undefined) return undefined
+        total += downloads
+        days++
+    }
+    return days > 0 ? total / days : undefined
+}
+
+/**
+ * The latest Christmas to New Year period (December 24 to January 1) with two weeks of downloads on both sides
+ */
+function findHolidayDip(series: Map<string, number>, lastDay: string): Seasonality['holidayDip'] {
+    for (let year = Number(lastDay.slice(0, 4)) - 1; year >= Number(lastDay.slice(0, 4)) - 2; year--) {
+        const start = `${year}-12-24`
+        const end = `${year + 1}-01-01`
+        const holiday = average(series, start, end)
+        const before = average(series, addDays(start, -HOLIDAY_MARGIN_DAYS), addDays(start, -1))
+        const after = average(series, addDays(end, 1), addDays(end, HOLIDAY_MARGIN_DAYS))
+        if (holiday === undefined || before === undefined || after === undefined || before + after === 0) continue
+        return { season: `${year}/${String(year + 1).slice(2)}`, dip: 1 - holiday / ((before + after) / 2) }
+    }
+    return undefined
+}
+
+/**
+ * Weekly pattern of a result's daily downloads (`downloadsRange`) over its last year
+ * @returns undefined when there are fewer than four weeks of daily downloads or none at all
+ */
+export function analyzeSeasonality(metric: MetricResult): Seasonality | undefined {
+    const downloadsRange: DownloadsRangeEntry[] = metric.metrics?.downloadsRange || []
+    const range = downloadsRange
+        .filter(entry => entry.tagName === undefined && entry.version === undefined)
+        .map(entry => ({ day: entry.day.slice(0, 10), downloads: entry.downloads }))
+        .sort((a, b) => a.day.localeCompare(b.day))
+    if (range.length < MIN_DAYS) return undefined
+
+    const recent = range.slice(-Math.min(MAX_DAYS, Math.floor(range.length / 7) * 7))
+    const totals = Array(7).fill(0)
+    for (const entry of recent) totals[weekdayIndex(entry.day)] += entry.downloads
+    const total = totals.reduce((sum, value) => sum + value, 0)
+    if (total === 0) return undefined
+
+    const weekdayAverage = totals.slice(0, 5).reduce((sum, value) => sum + value, 0) / 5
+    const weekendAverage = (totals[5] + totals[6]) / 2
+    return {
+        weekdayShare: totals.map(value => value / total),
+        weekendRatio: weekendAverage > 0 ? weekdayAverage / weekendAverage : Infinity,
+        holidayDip: findHolidayDip(new Map(range.map(entry => [entry.day, entry.downloads])), range[range.length - 1].day),
+    }
+}
+
+/**
+ * One line for the details section, such as
+ * "weekdays 2.4× weekends, busiest on Tue (17.2%), holiday dip 45% (2024/25)"
+ */
+export function formatSeasonality(seasonality: Seasonality): string {
+    const busiest = seasonality.weekdayShare.indexOf(Math.max(...seasonality.weekdayShare))
+    const ratio = Number.isFinite(seasonality.weekendRatio) ? `weekdays ${seasonality.weekendRatio.toFixed(1)}× weekends` : 'no weekend downloads'
+    let line = `${ratio}, busiest on ${WEEKDAYS[busiest]} (${(seasonality.weekdayShare[busiest] * 100).toFixed(1)}%)`
+    if (seasonality.holidayDip) {
+        const { season, dip } = seasonality.holidayDip
+        line += dip >= 0 ? `, holiday dip ${Math.round(dip * 100)}% (${season})` : `, ${Math.round(-dip * 100)}% busier over the holidays (${season})`
+    }
+    return line
+}
+
+export async function createWeekdayChart(metric: MetricResult, seasonality: Seasonality, svgOutputPath: string): Promise<string> {
+    const canvas = new Canvas(800, 400);
+    const chart = new Chart(
+        canvas as any,
+        {
+            type: 'bar',
+            data: {
+                labels: WEEKDAYS,
+                datasets: [{
+                    label: `${metric.name} share of downloads by weekday`,
+                    data: seasonality.weekdayShare.map(share => Math.round(share * 1000) / 10),
+                    // Weekends in grey
+                    backgroundColor: WEEKDAYS.map((_, index) => index < 5 ? 'rgba(75, 192, 192, 0.6)' : 'rgba(100, 116, 139, 0.6)'),
+                    borderWidth: 0
+                }]
+            },
+            options: {
+                plugins: {
+                    legend: { display: false },
+                    title: { display: true, text: `${metric.name} downloads by weekday` }
+                },
+                scales: {
+                    y: { min: 0, title: { display: true, text: 'Share of downloads (%)' } }
+                }
+            }
+        }
+    );
+    const svgBuffer = await canvas.toBuffer('svg', { matte: 'white' });
+    writeOutputFile(svgOutputPath, svgBuffer);
+    chart.destroy();
+
+    return svgOutputPath
+}
@@ -3,11 +3,21 @@ import { CategoryScale, Chart, LinearScale, LineController, LineElement, PointEl
 import { readFile, writeFile } from 'fs/promises';
 import { writeFileSync } from 'node:fs';
 import { Canvas } from 'skia-canvas';
-import type { MetricResult } from "./collectors/types.js";
-import { addRepoDetails, formatGitHubSummary } from './summaries/github.js';
-import { addNpmDetails, formatNpmSummary } from './summaries/npm.js';
-import { formatPowerShellSummary, addPowerShellDetails } from './summaries/powershell.js';
-import { addPypiDetails, addPypiCharts, formatPypiSummary } from './summaries/pypi.js';
+import type { MetricResult, SourceConfig } from "./collectors/types.js";
+import { formatNotableEvents, parseAnomalyMethod } from './anomalies.js';
+import type { HttpMode } from './clients/recorder.js';
+import { now } from './clock.js';
+import { loadSourcesConfig } from './config.js';
+import { deltaCell, deltaDivider, deltaHeader, formatDeltaCaption, parseDeltaBaselineSource, totalDeltaCell } from './deltas.js';
+import { formatLeaderboard } from './leaderboard.js';
+import { formatRecentMilestones, parseMilestoneRules } from './milestones.js';
+import { parsePythonVersionGrouping } from './collectors/pypi.js';
+import { formatCount, parseFailurePolicy } from './policy.js';
+import { formatBenchmarkComparison, splitBenchmarks } from './summaries/benchmarks.js';
+import { formatProductSummary } from './summaries/products.js';
+import { parsePublishMode } from './publish.js';
+import { getPlatform } from './registry.js';
+import { formatReleaseImpact } from './releases.js';
 
 Chart.register([
     CategoryScale,
@@ -24,10 +34,25 @@ Chart.register([
  * @param input - The input string to parse
  * @returns An array of trimmed, non-empty items
  */
-function parseCommaSeparatedInputs(input: string) {
+export function parseCommaSeparatedInputs(input: string) {
     return input ? input.split(',').map(item => item.trim()).filter(item => item) : []
 }
 
+/**
+ * Parse a numeric input
+ * @param name - The input name, used in the error message
+ * @param input - The raw input string
+ * @returns The parsed number, or undefined if the input is empty
+ */
+export function parseNumberInput(name: string, input: string) {
+    if (!input || !input.trim()) return undefined
+    const value = Number(input)
+    if (!Number.isFinite(value)) {
+        throw new Error(`Input ${name} must be a number, got "${input}"`)
+    }
+    return value
+}
+
 export function getInputs() {
     // Get all inputs from action.yml
     const npmPackages = core.getInput('npm-packages')
@@ -35,9 +60,42 @@ export function getInputs() {
     const pypiPackages = core.getInput('pypi-packages')
     const powershellModules = core.getInput('powershell-modules')
     const jsonOutputPath = core.getInput('json-output-path')
+    const historyPath = core.getInput('history-path')
+    const fullRefresh = core.getInput('full-refresh').toLowerCase() === 'true'
+    const pypiMirrors = core.getInput('pypi-mirrors').toLowerCase() === 'true'
+    const pypiKeepUnknown = core.getInput('pypi-keep-unknown').toLowerCase() === 'true'
+    const pypiPythonVersions = parsePythonVersionGrouping(core.getInput('pypi-python-versions'))
+    const deltaBaseline = parseDeltaBaselineSource(core.getInput('delta-baseline'))
+    const deltaPeriodDays = parseNumberInput('delta-period-days', core.getInput('delta-period-days'))
+    if (deltaBaseline === 'history' && !historyPath) {
+        throw new Error('delta-baseline history needs history-path to be set')
+    }
+    const anomalyDetection = parseAnomalyMethod(core.getInput('anomaly-detection'))
+    const anomalyThreshold = parseNumberInput('anomaly-threshold', core.getInput('anomaly-threshold'))
+    const anomalyWindow = parseNumberInput('anomaly-window', core.getInput('anomaly-window'))
+    const anomalyLookbackDays = parseNumberInput('anomaly-lookback-days', core.getInput('anomaly-lookback-days'))
+    const forecastDays = parseNumberInput('forecast-days', core.getInput('forecast-days'))
+    const forecastThreshold = parseNumberInput('forecast-threshold', core.getInput('forecast-threshold'))
+    const leaderboardMetric = core.getInput('leaderboard-metric')
+    const releaseImpactDays = parseNumberInput('release-impact-days', core.getInput('release-impact-days'))
+    const milestones = parseMilestoneRules(core.getInput('milestones'))
+    const milestoneRecentDays = parseNumberInput('milestone-recent-days', core.getInput('milestone-recent-days'))
     const updateReadme = core.getInput('update-readme').toLowerCase() === 'true'
     const commitMessage = core.getInput('commit-message')
     const readmePath = core.getInput('readme-path')
+    const configPath = core.getInput('config-path')
+    const customCollectors = core.getInput('custom-collectors')
+    const maxConcurrency = parseNumberInput('max-concurrency', core.getInput('max-concurrency'))
+    const maxConcurrencyPerHost = parseNumberInput('max-concurrency-per-host', core.getInput('max-concurrency-per-host'))
+    const httpTimeout = parseNumberInput('http-timeout', core.getInput('http-timeout'))
+    const httpRetries = parseNumberInput('http-retries', core.getInput('http-retries'))
+    const httpMode = (core.getInput('http-mode') || 'live').toLowerCase() as HttpMode
+    const fixturesDir = core.getInput('fixtures-dir') || 'fixtures/http'
+    const dryRun = core.getInput('dry-run').toLowerCase() === 'true'
+    const failOn = parseFailurePolicy(core.getInput('fail-on'))
+    const publish = parsePublishMode(core.getInput('publish'))
+    const publishBranch = core.getInput('publish-branch')
+    const baseBranch = core.getInput('base-branch')
 
     return {
         npmPackages: parseCommaSeparatedInputs(npmPackages),
@@ -45,10 +103,64 @@ export function getInputs() {
         pypiPackages: parseCommaSeparatedInputs(pypiPackages),
         powershellModules: parseCommaSeparatedInputs(powershellModules),
         jsonOutputPath,
+        historyPath,
+        fullRefresh,
+        pypiMirrors,
+        pypiKeepUnknown,
+        pypiPythonVersions,
+        deltaBaseline,
+        deltaPeriodDays,
+        anomalyDetection,
+        anomalyThreshold,
+        anomalyWindow,
+        anomalyLookbackDays,
+        forecastDays,
+        forecastThreshold,
+        leaderboardMetric,
+        releaseImpactDays,
+        milestones,
+        milestoneRecentDays,
         updateReadme,
         commitMessage,
         readmePath,
+        configPath,
+        customCollectors: parseCommaSeparatedInputs(customCollectors),
+        maxConcurrency,
+        maxConcurrencyPerHost,
+        httpTimeout,
+        httpRetries,
+        httpMode,
+        fixturesDir,
+        dryRun,
+        failOn,
+        publish,
+        publishBranch,
+        baseBranch,
+    }
+}
+
+export type SourceInputs = Pick<ReturnType<typeof getInputs>, 'npmPackages' | 'githubRepositories' | 'pypiPackages' | 'powershellModules' | 'configPath'>
+
+/**
+ * Combine the comma-separated inputs with the sources listed in the config file
+ * @param inputs - The parsed action (or CLI) inputs
+ * @returns Every source to collect; config file entries win over inputs naming the same source
+ */
+export async function resolveSources(inputs: SourceInputs): Promise<SourceConfig[]> {
+    const sources = new Map<string, SourceConfig>()
+    const add = (source: SourceConfig) => sources.set(`${source.platform}:${source.name}`, source)
+
+    inputs.npmPackages.forEach(name => add({ platform: 'NPM', name }))
+    inputs.githubRepositories.forEach(name => add({ platform: 'GitHub', name }))
+    inputs.pypiPackages.forEach(name => add({ platform: 'PyPI', name }))
+    inputs.powershellModules.forEach(name => add({ platform: 'PowerShell', name }))
+
+    if (inputs.configPath) {
+        const configured = await loadSourcesConfig(inputs.configPath)
+        configured.forEach(add)
     }
+
+    return Array.from(sources.values())
 }
 
 const MetricsPlaceHolderRegex = /<!-- METRICS_START -->[\s\S]*<!-- METRICS_END -->/
@@ -57,92 +169,91 @@ function formatSummary(summary: string) {
     return `<!-- METRICS_START -->\n${summary}\n<!-- METRICS_END -->`
 }
 
-const PlatformMap = {
-    "NPM": "JavaScript/TypeScript",
-    "PyPI": "Python",
-    "PowerShell Gallery": undefined,
-    "GitHub": undefined,
+function formatGenericSummary(summary: string, platformMetrics: MetricResult[]): string {
+    let platformDownloadTotal = 0
+    summary += `| Package | Downloads |${deltaHeader('Downloads')}\n`
+    summary += `| --- | --- |${deltaDivider()}\n`
+    for (const metric of platformMetrics) {
+        summary += `| ${metric.displayName || metric.name} | ${formatCount(metric, metric.metrics?.downloadsTotal)} |${deltaCell(metric, 'downloadsTotal')}\n`
+        platformDownloadTotal += metric.metrics?.downloadsTotal || 0
+    }
+    summary += `| **Total** | **${platformDownloadTotal.toLocaleString()}** |${totalDeltaCell(platformMetrics, 'downloadsTotal')}\n`
+    return summary
+}
+
+// Failed sources would otherwise show up as silent zeros in the tables above
+function formatCollectionErrors(summary: string, platformMetrics: MetricResult[]): string {
+    const failed = platformMetrics.filter(metric => metric.error)
+    if (failed.length === 0) return summary
+    summary += `\n> ⚠️ Could not collect ${failed.map(metric => `**${metric.displayName || metric.name}**`).join(', ')}; their figures above are missing, not zero.\n`
+    return summary
 }
 
-export async function createSummary(metrics: MetricResult[]) {
+export async function createSummary(allMetrics: MetricResult[]) {
+    // Benchmark sources only appear in the comparison section
+    const metrics = splitBenchmarks(allMetrics).own
     const platforms = metrics.map(metric => metric.platform).filter((value, index, self) => self.indexOf(value) === index)
-    console.log(platforms)
-
-    console.log(metrics)
 
     let summary = `# Usage Statistics
     
-Last updated: ${new Date().toLocaleString()}
+Last updated: ${now().toLocaleString()}
 
 Below are stats from artifacts tracked across ${platforms.slice(0, -1).join(', ')} and ${platforms.slice(-1)}.
     
 `
+    summary += formatDeltaCaption()
+    summary += formatLeaderboard(metrics)
+    summary += await formatProductSummary(metrics)
+    summary += formatRecentMilestones(metrics)
 
     for (const platform of platforms) {
 
         const platformMetrics = metrics.filter(metric => metric.platform === platform)
-        const platformLanguage = PlatformMap[platform as keyof typeof PlatformMap]
+        const definition = getPlatform(platform)
+        const platformLanguage = definition?.language
 
         summary += `### ${platform}${platformLanguage ? ` (${platformLanguage})` : ''}: \n\n`
 
-        switch (platform) {
-            case "NPM":
-                summary = formatNpmSummary(summary, platformMetrics)
-                break;
-            case "GitHub":
-                summary = formatGitHubSummary(summary, platformMetrics)
-            break;
-            case "PyPI":
-                summary = formatPypiSummary(summary, platformMetrics)
-                break;  
-            case "PowerShell":
-                summary = formatPowerShellSummary(summary, platformMetrics)
-                break;
-            default:
-                let platformDownloadTotal = 0
-                summary += `| Package | Downloads |\n`
-                summary += `| --- | --- |\n`
-                for (const metric of platformMetrics) {
-                    summary += `| ${metric.name} | ${metric.metrics?.downloadCount?.toLocaleString() || 0} |\n`
-                    platformDownloadTotal += metric.metrics?.downloadCount || 0
-                }
-                summary += `| **Total** | **${platformDownloadTotal.toLocaleString()}** |\n`
-                break;
-        }
+        const formatPlatformSummary = definition?.formatSummary || formatGenericSummary
+        summary = formatPlatformSummary(summary, platformMetrics)
+        summary = formatCollectionErrors(summary, platformMetrics)
 
         summary += `\n`
-        
-        // Add detailed information for each platform
-        switch (platform) {
-            case "GitHub":
-                summary = await addRepoDetails(summary, platformMetrics)
-                break;
-            case "PyPI":
-                summary = addPypiDetails(summary, platformMetrics)
-                summary = await addPypiCharts(summary, platformMetrics)
-                break;
-            case "NPM":
-                summary = await addNpmDetails(summary, platformMetrics)
-                break;
-            case "PowerShell":
-                summary = await addPowerShellDetails(summary, platformMetrics)
-                break;
-            default:
-                break;
+
+        // Add detailed information and charts for each platform
+        if (definition?.addDetails) {
+            summary = await definition.addDetails(summary, platformMetrics)
+        }
+        if (definition?.addCharts) {
+            summary = await definition.addCharts(summary, platformMetrics)
         }
 
         summary += '\n'
     }
 
+    summary += await formatBenchmarkComparison(allMetrics)
+    summary += formatReleaseImpact(metrics)
+    summary += formatNotableEvents(metrics)
+
     return summary
 }
 
-export async function updateRepositoryReadme(metrics: MetricResult[], readmePath: string) {
+/**
+ * Render the README with its metrics section replaced, without writing it
+ * @returns The current and updated README contents
+ */
+export async function renderRepositoryReadme(metrics: MetricResult[], readmePath: string) {
     const currentReadme = await readFile(readmePath, 'utf8')
 
     const summary = await createSummary(metrics)
 
     const updatedReadme = currentReadme.replace(MetricsPlaceHolderRegex, formatSummary(summary))
 
+    return { currentReadme, updatedReadme }
+}
+
+export async function updateRepositoryReadme(metrics: MetricResult[], readmePath: string) {
+    const { updatedReadme } = await renderRepositoryReadme(metrics, readmePath)
+
     await writeFile(readmePath, updatedReadme)
 }
\ No newline at end of file